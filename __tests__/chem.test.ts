@@ -79,12 +79,35 @@ describe('splitEquation – arrow normalization & parsing', () => {
   test('Invalid (no arrow) returns null', () => {
     expect(Parser.splitEquation('H2 + O2 CO2 + H2O')).toBeNull();
   });
+
+  test('arrow kinds and reaction conditions', () => {
+    const kinds = (eqn: string) => Parser.findArrows(eqn).map((a) => a.kind);
+    expect(kinds('N2 + 3H2 ⇌ 2NH3')).toEqual(['equilibrium']);
+    expect(kinds('N2 + 3H2 <=> 2NH3')).toEqual(['equilibrium']);
+    expect(kinds('A <-> B')).toEqual(['resonance']);
+    expect(kinds('B <- A')).toEqual(['reverse']);
+    expect(kinds('MnO4- + e- -> MnO4^2-')).toEqual(['forward']);
+
+    expect(Parser.findArrows('N2 + H2 ->[Fe, 450 °C, 200 atm] NH3')[0].conditions)
+      .toEqual(['Fe', '450 °C', '200 atm']);
+    expect(Parser.findArrows('CaCO3 -Δ-> CaO + CO2')[0].conditions).toEqual(['Δ']);
+    expect(Parser.splitEquation('KClO3 ->[MnO2, Δ] KCl + O2'))
+      .toEqual({ left: ['KClO3'], right: ['KCl', 'O2'] });
+  });
+
+  test('formatEquation keeps the arrow and its conditions', () => {
+    const arrow = Parser.findArrows('N2 + H2 <=>[Fe] NH3')[0];
+    const species = (fs: string[]) => fs.map(Parser.parseSpecies);
+    expect(Parser.formatEquation(species(['N2', '3H2']), species(['2NH3']), arrow))
+      .toBe('N2 + 3H2 <=>[Fe] 2NH3');
+    expect(Parser.formatArrow()).toBe('->');
+  });
 });
 
 describe('parseSpecies & coefficient math', () => {
   test('parseSpecies with and without leading coefficient', () => {
-    expect(Parser.parseSpecies('2H2O')).toEqual({ coeff: 2, formula: 'H2O' });
-    expect(Parser.parseSpecies('  H2O')).toEqual({ coeff: 1, formula: 'H2O' });
+    expect(Parser.parseSpecies('2H2O')).toEqual({ coeff: 2, formula: 'H2O', charge: 0 });
+    expect(Parser.parseSpecies('  H2O')).toEqual({ coeff: 1, formula: 'H2O', charge: 0 });
   });
 
   test('multiplyCounts + sumCounts across multiple species', () => {
@@ -111,5 +134,88 @@ describe('parseSpecies & coefficient math', () => {
   });
 });
 
+});
+
+describe('ionic charges', () => {
+  test('caret, bare and Unicode charge notations', () => {
+    expect(Parser.formulaCharge('Fe^2+')).toBe(2);
+    expect(Parser.formulaCharge('Fe^{3+}')).toBe(3);
+    expect(Parser.formulaCharge('SO4^2-')).toBe(-2);
+    expect(Parser.formulaCharge('MnO4^-')).toBe(-1);
+    expect(Parser.formulaCharge('NO3-')).toBe(-1);
+    expect(Parser.formulaCharge('Na+')).toBe(1);
+    expect(Parser.formulaCharge('SO4²⁻')).toBe(-2);
+    expect(Parser.formulaCharge('[Fe(CN)6]4-')).toBe(-4);
+    expect(Parser.formulaCharge('H2O')).toBe(0);
+  });
+
+  test('bare signs that may be misread are flagged', () => {
+    const flag = (f: string) =>
+      Parser.tokenizeFormula(f).flatMap((t) => (t.type === 'charge' ? [t.ambiguous ?? null] : []));
+    expect(flag('Fe3+')).toEqual(['digits']);
+    expect(flag('SO42-')).toEqual(['digits']);
+    expect(flag('C6H5-CH3')).toEqual(['inside']);
+    expect(flag('NO3-')).toEqual([null]);
+    expect(flag('Na+(aq)')).toEqual([null]);
+    expect(flag('[Fe(CN)6]4-')).toEqual([null]);
+  });
+
+  test('charge notation does not leak into element counts', () => {
+    expect(Parser.countElementsInFormula('SO4^2-')).toEqual({ O: 4, S: 1 });
+    expect(Parser.countElementsInFormula('[Fe(CN)6]4-'))
+      .toEqual({ C: 6, Fe: 1, N: 6 });
+    expect(Parser.countElementsInFormula('NH4+')).toEqual({ H: 4, N: 1 });
+  });
+
+  test('free electrons carry charge and no atoms', () => {
+    expect(Parser.parseSpecies('2e-')).toEqual({ coeff: 2, formula: 'e-', charge: -1 });
+    expect(Parser.countElementsInFormula('e-')).toEqual({});
+    expect(Parser.formulaCharge('e⁻')).toBe(-1);
+  });
+
+  test('splitEquation keeps charge signs attached to their species', () => {
+    expect(Parser.splitEquation('MnO4^- + Fe^2+ + H^+ -> Mn^2+ + Fe^3+ + H2O'))
+      .toEqual({
+        left: ['MnO4^-', 'Fe^2+', 'H^+'],
+        right: ['Mn^2+', 'Fe^3+', 'H2O'],
+      });
+    expect(Parser.splitEquation('Na+ + Cl- -> NaCl'))
+      .toEqual({ left: ['Na+', 'Cl-'], right: ['NaCl'] });
+    expect(Parser.splitEquation('H2+O2->H2O'))
+      .toEqual({ left: ['H2', 'O2'], right: ['H2O'] });
+  });
+});
 
+describe('physical state labels', () => {
+  test('state labels are not formula groups', () => {
+    expect(Parser.countElementsInFormula('NaCl(aq)')).toEqual({ Cl: 1, Na: 1 });
+    expect(Parser.countElementsInFormula('Ca(OH)2(s)')).toEqual({ Ca: 1, H: 2, O: 2 });
+    expect(Parser.countElementsInFormula('CuSO4·5H2O(s)'))
+      .toEqual({ Cu: 1, S: 1, O: 9, H: 10 });
+  });
+
+  test('parseSpecies carries the state separately from the formula', () => {
+    expect(Parser.parseSpecies('2H2O(l)'))
+      .toEqual({ coeff: 2, formula: 'H2O', charge: 0, state: 'l' });
+    expect(Parser.parseSpecies('CO2↑')).toEqual({ coeff: 1, formula: 'CO2', charge: 0, state: 'g' });
+    expect(Parser.parseSpecies('AgCl↓').state).toBe('s');
+    expect(Parser.parseSpecies('Na+(aq)'))
+      .toEqual({ coeff: 1, formula: 'Na+', charge: 1, state: 'aq' });
+    expect(Parser.parseSpecies('(NH4)2S')).not.toHaveProperty('state');
+  });
+
+  test('charged species followed by a state still split correctly', () => {
+    expect(Parser.splitEquation('Na+(aq) + Cl-(aq) -> NaCl(s)'))
+      .toEqual({ left: ['Na+(aq)', 'Cl-(aq)'], right: ['NaCl(s)'] });
+    expect(Parser.splitEquation('H2+(NH4)2S -> X'))
+      .toEqual({ left: ['H2', '(NH4)2S'], right: ['X'] });
+  });
+
+  test('formatEquation preserves states when exporting', () => {
+    const eqn = '2H2(g) + O2(g) -> 2H2O(l)';
+    const { left, right } = Parser.splitEquation(eqn)!;
+    expect(Parser.formatEquation(left.map(Parser.parseSpecies), right.map(Parser.parseSpecies)))
+      .toBe(eqn);
+    expect(Parser.formatSpecies({ coeff: 3, formula: 'AgCl', state: 's' })).toBe('3AgCl(s)');
+  });
 });
@@ -0,0 +1,38 @@
+import { classifyReaction } from '../lib/chem/classify';
+import { splitEquation } from '../lib/chem/parser';
+
+const types = (eqn: string) => {
+  const { left, right } = splitEquation(eqn)!;
+  return classifyReaction(left, right).types;
+};
+
+describe('classifyReaction', () => {
+  test('combustion of a hydrocarbon is also redox', () => {
+    expect(types('C3H8 + 5O2 -> 3CO2 + 4H2O')).toEqual(['combustion', 'redox']);
+  });
+
+  test('synthesis and decomposition', () => {
+    expect(types('2Mg + O2 -> 2MgO')).toEqual(['synthesis', 'redox']);
+    expect(types('CaCO3 -> CaO + CO2')).toEqual(['decomposition']);
+  });
+
+  test('single replacement', () => {
+    const { left, right } = splitEquation('Zn + CuSO4 -> ZnSO4 + Cu')!;
+    const r = classifyReaction(left, right);
+    expect(r.types).toEqual(['single-replacement', 'redox']);
+    expect(r.reasons[0].text).toBe('Zn takes the place of Cu in CuSO4, releasing Cu.');
+    expect(r.reasons[1].text).toMatch(/Zn is oxidized \(0 → \+2\)/);
+  });
+
+  test('precipitation by double replacement', () => {
+    const { left, right } = splitEquation('AgNO3 + NaCl -> AgCl + NaNO3')!;
+    const r = classifyReaction(left, right);
+    expect(r.types).toEqual(['precipitation', 'double-replacement']);
+    expect(r.reasons[0].text).toMatch(/^Dissolved reactants form the insoluble solid AgCl\. Chlorides/);
+  });
+
+  test('neutralization', () => {
+    expect(types('HCl + NaOH -> NaCl + H2O')).toEqual(['neutralization', 'double-replacement']);
+    expect(types('HCl + NH3 -> NH4Cl')).toEqual(['neutralization', 'synthesis']);
+  });
+});
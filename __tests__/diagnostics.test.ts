@@ -0,0 +1,90 @@
+import { formulaDiagnostics, parseEquation } from '../lib/chem/diagnostics';
+
+const codes = (eqn: string) => parseEquation(eqn).diagnostics.map((d) => d.code);
+
+describe('parseEquation – diagnostics with offsets', () => {
+  test('clean equations produce no diagnostics', () => {
+    expect(codes('C3H8 + O2 -> CO2 + H2O')).toEqual([]);
+    expect(codes('Fe(NO3)3·9H2O + 2(NH3) -> K4[Fe(CN)6]')).toEqual([]);
+    expect(codes('MnO4^- + 5e- -> Mn^2+')).toEqual([]);
+    expect(codes('AgNO3(aq) + NaCl(aq) -> AgCl↓ + Na+(aq) + NO3-(aq)')).toEqual([]);
+  });
+
+  test('the parsed arrow is returned with the equation', () => {
+    expect(parseEquation('N2 + H2 ⇌ NH3').arrow).toEqual({ kind: 'equilibrium', conditions: [] });
+    expect(parseEquation('H2 + O2').arrow).toBeNull();
+  });
+
+  test('missing and multiple arrows', () => {
+    expect(parseEquation('H2 + O2').equation).toBeNull();
+    expect(codes('H2 + O2')).toEqual(['missing-arrow']);
+
+    const eqn = 'A -> B -> C';
+    const r = parseEquation(eqn);
+    expect(r.equation).toBeNull();
+    expect(r.diagnostics).toHaveLength(1);
+    expect(eqn.slice(r.diagnostics[0].start, r.diagnostics[0].end)).toBe('->');
+    expect(r.diagnostics[0].start).toBe(7);
+  });
+
+  test('empty side points at the arrow', () => {
+    const r = parseEquation(' -> H2O');
+    expect(r.diagnostics).toEqual([
+      expect.objectContaining({ code: 'empty-side', start: 1, end: 3 }),
+    ]);
+    expect(parseEquation('->').diagnostics.map((d) => d.code)).toEqual(['empty-side', 'empty-side']);
+  });
+
+  test('reactants with no products are not an error', () => {
+    const r = parseEquation('H2 + O2 -> ');
+    expect(r.diagnostics).toEqual([]);
+    expect(r.equation).toEqual({ left: ['H2', 'O2'], right: [] });
+  });
+
+  test('ambiguous bare charges are underlined', () => {
+    const eqn = 'Fe + Cu2+ -> Fe2+ + Cu';
+    const d = parseEquation(eqn).diagnostics;
+    expect(d.map((x) => [x.code, x.severity, eqn.slice(x.start, x.end)])).toEqual([
+      ['ambiguous-charge', 'warning', '2+'],
+      ['ambiguous-charge', 'warning', '2+'],
+    ]);
+    expect(d[0].message).toMatch(/write Cu\^2\+/);
+    expect(formulaDiagnostics('C6H5-CH3')).toEqual([
+      expect.objectContaining({ code: 'ambiguous-charge', start: 4, end: 5 }),
+    ]);
+    expect(formulaDiagnostics('NO3-')).toEqual([]);
+  });
+
+  test('unclosed bracket and drifting digits in "Ca3(PO4 2"', () => {
+    const eqn = 'Ca3(PO4 2 -> X';
+    const d = parseEquation(eqn).diagnostics;
+    const bracket = d.find((x) => x.code === 'unbalanced-bracket')!;
+    expect(bracket.severity).toBe('error');
+    expect(eqn.slice(bracket.start, bracket.end)).toBe('(');
+    const dangling = d.find((x) => x.code === 'dangling-multiplier')!;
+    expect(dangling.severity).toBe('warning');
+    expect(eqn.slice(dangling.start, dangling.end)).toBe(' 2');
+  });
+
+  test('unknown element symbols', () => {
+    const eqn = '2H2 + O2 -> 2H2Oo';
+    const [d] = parseEquation(eqn).diagnostics;
+    expect(d.code).toBe('unknown-element');
+    expect(eqn.slice(d.start, d.end)).toBe('Oo');
+  });
+
+  test('mismatched and stray closers', () => {
+    expect(formulaDiagnostics('Ca3(PO4]2').map((d) => d.code))
+      .toEqual(['unbalanced-bracket']);
+    expect(formulaDiagnostics('H2O)').map((d) => d.message))
+      .toEqual(['Unmatched ")"']);
+  });
+
+  test('dangling multiplier and stray characters', () => {
+    expect(formulaDiagnostics('(OH)2·3').map((d) => d.code))
+      .toEqual(['dangling-multiplier']);
+    expect(formulaDiagnostics('H2$O', 10)).toEqual([
+      expect.objectContaining({ code: 'unknown-character', start: 12, end: 13 }),
+    ]);
+  });
+});
@@ -0,0 +1,50 @@
+import * as Parser from '../lib/chem/parser';
+import { ELEMENTS, getElement, isElementSymbol } from '../lib/chem/elements';
+
+describe('periodic table data', () => {
+  test('all 118 elements in atomic-number order', () => {
+    expect(ELEMENTS).toHaveLength(118);
+    ELEMENTS.forEach((e, i) => expect(e.atomicNumber).toBe(i + 1));
+    expect(new Set(ELEMENTS.map((e) => e.symbol)).size).toBe(118);
+  });
+
+  test('lookups carry name, weight, group and period', () => {
+    expect(getElement('Fe')).toEqual({
+      symbol: 'Fe',
+      name: 'Iron',
+      atomicNumber: 26,
+      atomicWeight: 55.845,
+      group: 8,
+      period: 4,
+      oxidationStates: [2, 3],
+      electronegativity: 1.83,
+    });
+    expect(getElement('Og')?.period).toBe(7);
+    expect(getElement('Ce')?.group).toBeNull();
+    expect(getElement('Xx')).toBeUndefined();
+    expect(getElement('F')?.electronegativity).toBe(3.98);
+    expect(getElement('Ne')?.electronegativity).toBeNull();
+  });
+
+  test('isElementSymbol is case-sensitive', () => {
+    expect(isElementSymbol('Co')).toBe(true);
+    expect(isElementSymbol('CO')).toBe(false);
+    expect(isElementSymbol('Hh')).toBe(false);
+  });
+});
+
+describe('unknown element handling in countElementsInFormula', () => {
+  test('unknownElements flags symbols that are not elements', () => {
+    expect(Parser.unknownElements('Xx2O')).toEqual(['Xx']);
+    expect(Parser.unknownElements('HhHh')).toEqual(['Hh']);
+    expect(Parser.unknownElements('K4[Fe(CN)6]')).toEqual([]);
+  });
+
+  test('non-strict mode keeps counting, strict mode rejects', () => {
+    expect(Parser.countElementsInFormula('Xx2')).toEqual({ Xx: 2 });
+    expect(() => Parser.countElementsInFormula('Xx2', { strict: true }))
+      .toThrow(Parser.UnknownElementError);
+    expect(Parser.countElementsInFormula('H2O', { strict: true }))
+      .toEqual({ H: 2, O: 1 });
+  });
+});
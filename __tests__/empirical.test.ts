@@ -0,0 +1,51 @@
+import {
+  formulaFromCombustion,
+  formulaFromMasses,
+  formulaFromPercent,
+  FormulaError,
+} from '../lib/chem/empirical';
+import { molarMass } from '../lib/chem/mass';
+
+describe('empirical and molecular formulas', () => {
+  test('mass percent, then molar mass for the molecular formula', () => {
+    const r = formulaFromPercent({ C: 40.0, H: 6.71, O: 53.29 }, { molarMass: 180.16 });
+    expect(r.formula).toBe('CH2O');
+    expect(r.multiplier).toBe(1);
+    expect(r.molecular).toMatchObject({ formula: 'C6H12O6', factor: 6 });
+  });
+
+  test('fractional ratios are scaled, not rounded away', () => {
+    expect(formulaFromPercent({ Fe: 69.94, O: 30.06 }).formula).toBe('Fe2O3');
+    const magnetite = formulaFromPercent({ Fe: 72.36, O: 27.64 });
+    expect(magnetite.ratios.O).toBeCloseTo(4 / 3, 2);
+    expect(magnetite.multiplier).toBe(3);
+    expect(magnetite.formula).toBe('Fe3O4');
+  });
+
+  test('grams per element', () => {
+    expect(formulaFromMasses({ Na: 2.3, Cl: 3.545 }).formula).toBe('NaCl');
+    expect(formulaFromMasses({ N: 1.4, H: 0.302 })).toMatchObject({ counts: { N: 1, H: 3 }, formula: 'NH3' });
+    expect(formulaFromMasses({ H: 0.2016, O: 1.6 }).formula).toBe('H2O');
+    expect(formulaFromMasses({ Na: 2.3, H: 0.1008 }).formula).toBe('NaH');
+  });
+
+  test('combustion analysis finds oxygen by difference', () => {
+    const n = 0.01; // mol of C2H5OH
+    const r = formulaFromCombustion({
+      sampleMass: n * molarMass('C2H6O'),
+      co2Mass: 2 * n * molarMass('CO2'),
+      h2oMass: 3 * n * molarMass('H2O'),
+    });
+    expect(r.formula).toBe('C2H6O');
+
+    const propane = formulaFromCombustion({ sampleMass: 1.0, co2Mass: 2.994, h2oMass: 1.634 });
+    expect(propane.formula).toBe('C3H8');
+  });
+
+  test('bad input', () => {
+    expect(() => formulaFromPercent({ C: 40, H: 6.7 })).toThrow(/not 100%/);
+    expect(() => formulaFromPercent({ C: 40, H: 6.71, O: 53.29 }, { molarMass: 100 })).toThrow(FormulaError);
+    expect(() => formulaFromMasses({ Xx: 1 })).toThrow(/Unknown element/);
+    expect(() => formulaFromCombustion({ sampleMass: 1, co2Mass: 5, h2oMass: 1 })).toThrow(/more than/);
+  });
+});
@@ -0,0 +1,70 @@
+import { EquilibriumError, equilibriumExpression, solveIce } from '../lib/chem/equilibrium';
+
+describe('equilibriumExpression', () => {
+  test('Kc from balanced coefficients', () => {
+    const e = equilibriumExpression(
+      [{ formula: 'N2', coeff: 1, state: 'g' }, { formula: 'H2', coeff: 3, state: 'g' }],
+      [{ formula: 'NH3', coeff: 2, state: 'g' }]
+    );
+    expect(e.text).toBe('[NH3]^2 / ([N2][H2]^3)');
+    expect(e.numerator).toEqual([{ formula: 'NH3', power: 2 }]);
+    expect(e.excluded).toEqual([]);
+  });
+
+  test('pure solids and liquids are left out', () => {
+    const reactants = [{ formula: 'CaCO3', coeff: 1, state: 's' as const }];
+    const products = [{ formula: 'CaO', coeff: 1, state: 's' as const }, { formula: 'CO2', coeff: 1, state: 'g' as const }];
+    const e = equilibriumExpression(reactants, products, 'Kp');
+    expect(e.text).toBe('P(CO2)');
+    expect(e.excluded).toEqual(['CaCO3', 'CaO']);
+  });
+
+  test('Kp leaves out dissolved species, Kc keeps them', () => {
+    const reactants = [{ formula: 'CO2', coeff: 1, state: 'g' as const }, { formula: 'H2O', coeff: 1, state: 'l' as const }];
+    const products = [{ formula: 'H2CO3', coeff: 1, state: 'aq' as const }];
+    expect(equilibriumExpression(reactants, products, 'Kc').text).toBe('[H2CO3] / [CO2]');
+    expect(equilibriumExpression(reactants, products, 'Kp').text).toBe('1 / P(CO2)');
+  });
+});
+
+describe('solveIce', () => {
+  // H2 + I2 ⇌ 2HI
+  const reactants = [{ formula: 'H2', coeff: 1 }, { formula: 'I2', coeff: 1 }];
+  const products = [{ formula: 'HI', coeff: 2 }];
+
+  test('forward shift: (2x)^2 / (1 - x)^2 = 49', () => {
+    const r = solveIce(reactants, products, { left: [1, 1], right: [0] }, 49);
+    expect(r.x).toBeCloseTo(7 / 9, 10);
+    expect(r.rows.map((row) => row.equilibrium)).toEqual([
+      expect.closeTo(2 / 9, 10),
+      expect.closeTo(2 / 9, 10),
+      expect.closeTo(14 / 9, 10),
+    ]);
+    expect(r.Q).toBeCloseTo(49, 6);
+  });
+
+  test('reverse shift when only products are present', () => {
+    const r = solveIce(reactants, products, { left: [0, 0], right: [2] }, 49);
+    expect(r.x).toBeLessThan(0);
+    expect(r.rows[0].equilibrium).toBeCloseTo(2 / 9, 10);
+    expect(r.rows[2].change).toBeCloseTo(-4 / 9, 10);
+  });
+
+  test('solids are ignored and an open-ended side is bracketed', () => {
+    const r = solveIce(
+      [{ formula: 'CaCO3', coeff: 1, state: 's' }],
+      [{ formula: 'CaO', coeff: 1, state: 's' }, { formula: 'CO2', coeff: 1, state: 'g' }],
+      { left: [5], right: [0, 0] },
+      0.25,
+      'Kp'
+    );
+    expect(r.rows.map((row) => row.formula)).toEqual(['CO2']);
+    expect(r.rows[0].equilibrium).toBeCloseTo(0.25, 10);
+  });
+
+  test('bad input', () => {
+    expect(() => solveIce(reactants, products, { left: [1, 1], right: [0] }, 0)).toThrow(EquilibriumError);
+    expect(() => solveIce(reactants, products, { left: [1, 0], right: [0] }, 4)).toThrow(/cannot shift/);
+    expect(() => solveIce(reactants, products, { left: [-1, 1], right: [0] }, 4)).toThrow(/H2/);
+  });
+});
@@ -0,0 +1,46 @@
+import {
+  gasMoles,
+  gasVolume,
+  gasVolumeRatios,
+  molarVolume,
+  SATP,
+  STP,
+} from '../lib/chem/gas';
+
+describe('ideal gas conversions', () => {
+  test('molar volume at STP and SATP', () => {
+    expect(molarVolume(STP)).toBeCloseTo(22.414, 3);
+    expect(molarVolume(SATP)).toBeCloseTo(24.79, 2);
+  });
+
+  test('units of temperature, pressure and volume', () => {
+    const room = {
+      temperature: { value: 25, unit: '°C' as const },
+      pressure: { value: 760, unit: 'mmHg' as const },
+    };
+    expect(gasMoles({ value: 24465, unit: 'mL' }, room)).toBeCloseTo(1, 3);
+    expect(gasVolume(1000, STP, 'm3')).toBeCloseTo(22.414, 3);
+    expect(gasMoles({ value: 1, unit: 'L' }, { ...room, pressure: { value: 101.325, unit: 'kPa' } }))
+      .toBeCloseTo(1 / 24.465, 5);
+  });
+
+  test('bad conditions', () => {
+    expect(() => molarVolume({ ...STP, temperature: { value: -300, unit: '°C' } })).toThrow(/absolute zero/);
+    expect(() => molarVolume({ ...STP, pressure: { value: 0, unit: 'atm' } })).toThrow(/Pressure/);
+  });
+
+  test('volume ratios follow the coefficients of (g) species', () => {
+    expect(
+      gasVolumeRatios([
+        { formula: 'C3H8', coeff: 2, state: 'g' },
+        { formula: 'O2', coeff: 10, state: 'g' },
+        { formula: 'CO2', coeff: 6, state: 'g' },
+        { formula: 'H2O', coeff: 8, state: 'l' },
+      ])
+    ).toEqual([
+      { formula: 'C3H8', ratio: 1 },
+      { formula: 'O2', ratio: 5 },
+      { formula: 'CO2', ratio: 3 },
+    ]);
+  });
+});
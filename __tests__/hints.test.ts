@@ -0,0 +1,58 @@
+import { inspectionHint } from '../lib/chem/hints';
+
+const ones = (l: string[], r: string[]) => ({ left: l.map(() => 1), right: r.map(() => 1) });
+
+describe('inspectionHint – order of work', () => {
+  const L = ['C3H8', 'O2'];
+  const R = ['CO2', 'H2O'];
+
+  test('elements in one species per side come first, then H, then O', () => {
+    expect(inspectionHint(L, R, ones(L, R)).piece).toBe('C');
+    expect(inspectionHint(L, R, { left: [1, 1], right: [3, 1] }).piece).toBe('H');
+    expect(inspectionHint(L, R, { left: [1, 1], right: [3, 4] }).piece).toBe('O');
+    expect(inspectionHint(L, R, { left: [1, 5], right: [3, 4] }).done).toBe(true);
+  });
+
+  test('levels go from element to species to coefficient', () => {
+    const c = { left: [1, 1], right: [3, 4] };
+    expect(inspectionHint(L, R, c, 1).text).toMatch(/^Now balance O/);
+    expect(inspectionHint(L, R, c, 2).species).toEqual({ side: 'left', index: 1 });
+    expect(inspectionHint(L, R, c, 3).coefficient).toEqual({ value: 5, text: '5' });
+  });
+
+  test('whole-number coefficients win over fractional ones', () => {
+    const h = inspectionHint(L, R, ones(L, R), 3);
+    expect(h.species).toEqual({ side: 'right', index: 0 });
+    expect(h.coefficient?.value).toBe(3);
+  });
+});
+
+describe('inspectionHint – teaching heuristics', () => {
+  test('fractional coefficient for a diatomic element', () => {
+    const h = inspectionHint(['C2H6', 'O2'], ['CO2', 'H2O'], { left: [1, 1], right: [2, 3] }, 3);
+    expect(h.coefficient).toEqual({ value: 3.5, text: '7/2', multiplyAllBy: 2 });
+    expect(h.text).toMatch(/^Use the fraction 7\/2 for O2/);
+  });
+
+  test('polyatomic ions that stay intact are balanced as units', () => {
+    const L = ['Ca(NO3)2', 'Na3PO4'];
+    const R = ['Ca3(PO4)2', 'NaNO3'];
+    const h = inspectionHint(L, R, { left: [3, 1], right: [1, 1] });
+    expect(h.piece).toBe('NO3');
+    expect(h.text).toMatch(/^Treat NO3 as a single unit/);
+    expect(inspectionHint(L, R, { left: [3, 1], right: [1, 6] }).piece).toBe('Na');
+    expect(inspectionHint(L, R, { left: [3, 2], right: [1, 6] }).done).toBe(true);
+  });
+
+  test('a polyatomic ion that is broken up is not a unit', () => {
+    const h = inspectionHint(['Cu', 'HNO3'], ['Cu(NO3)2', 'NO', 'H2O'], { left: [1, 1], right: [1, 1, 1] });
+    expect(h.piece).toBe('N');
+  });
+
+  test('charge comes last and is fixed with electrons', () => {
+    const h = inspectionHint(['Fe^3+', 'e-'], ['Fe^2+'], { left: [1, 2], right: [1] }, 3);
+    expect(h.piece).toBe('charge');
+    expect(h.species).toEqual({ side: 'left', index: 1 });
+    expect(h.coefficient?.value).toBe(1);
+  });
+});
@@ -0,0 +1,80 @@
+import { formatEquation } from '../lib/chem/parser';
+import { dissociate, ionicEquations, type IonicSide } from '../lib/chem/ionic';
+
+const sp = (...formulas: string[]) => formulas.map((formula) => ({ formula }));
+const text = (side: IonicSide | null) => side && formatEquation(side.left, side.right);
+
+describe('dissociate', () => {
+  test('classifies electrolytes', () => {
+    expect(dissociate('HCl').kind).toBe('strong-acid');
+    expect(dissociate('HC2H3O2').kind).toBe('weak-acid');
+    expect(dissociate('HF').dissociates).toBe(false);
+    expect(dissociate('NaOH').kind).toBe('strong-base');
+    expect(dissociate('NH3').kind).toBe('weak-base');
+    expect(dissociate('H2O').kind).toBe('molecular');
+    expect(dissociate('CO2').kind).toBe('molecular');
+    expect(dissociate('Zn').kind).toBe('element');
+    expect(dissociate('Cu^2+').kind).toBe('ion');
+  });
+
+  test('splits soluble salts using the solubility rules', () => {
+    expect(dissociate('Ca3(PO4)2').kind).toBe('insoluble-salt');
+    expect(dissociate('AgCl').kind).toBe('insoluble-salt');
+    expect(dissociate('BaSO4').kind).toBe('insoluble-salt');
+    expect(dissociate('Fe2(SO4)3').ions).toEqual([
+      { formula: 'Fe^3+', count: 2 },
+      { formula: 'SO4^2-', count: 3 },
+    ]);
+    expect(dissociate('(NH4)2SO4').ions).toEqual([
+      { formula: 'NH4+', count: 2 },
+      { formula: 'SO4^2-', count: 1 },
+    ]);
+    expect(dissociate('Hg2(NO3)2').ions[0]).toEqual({ formula: 'Hg2^2+', count: 1 });
+  });
+
+  test('a written state overrides the rules', () => {
+    expect(dissociate('NaCl', 's').dissociates).toBe(false);
+    expect(dissociate('Ca(OH)2', 'aq').dissociates).toBe(true);
+  });
+});
+
+describe('ionicEquations', () => {
+  test('precipitation: Na3PO4 + CaCl2', () => {
+    const r = ionicEquations(sp('Na3PO4', 'CaCl2'), sp('Ca3(PO4)2', 'NaCl'));
+    expect(text(r.molecular)).toBe('2Na3PO4 + 3CaCl2 -> Ca3(PO4)2 + 6NaCl');
+    expect(text(r.complete)).toBe(
+      '6Na+(aq) + 2PO4^3-(aq) + 3Ca^2+(aq) + 6Cl-(aq) -> Ca3(PO4)2(s) + 6Na+(aq) + 6Cl-(aq)'
+    );
+    expect(text(r.net)).toBe('2PO4^3-(aq) + 3Ca^2+(aq) -> Ca3(PO4)2(s)');
+    expect(r.spectators).toEqual(['Na+', 'Cl-']);
+  });
+
+  test('neutralization reduces to H+ + OH- -> H2O', () => {
+    const r = ionicEquations(sp('H2SO4', 'KOH'), sp('K2SO4', 'H2O'));
+    expect(text(r.net)).toBe('H+(aq) + OH-(aq) -> H2O');
+  });
+
+  test('single replacement keeps the metal and drops sulfate', () => {
+    const r = ionicEquations(
+      [{ formula: 'Zn', state: 's' as const }, { formula: 'CuSO4', state: 'aq' as const }],
+      [{ formula: 'ZnSO4', state: 'aq' as const }, { formula: 'Cu', state: 's' as const }],
+      { left: [1, 1], right: [1, 1] }
+    );
+    expect(text(r.net)).toBe('Zn(s) + Cu^2+(aq) -> Zn^2+(aq) + Cu(s)');
+  });
+
+  test('salts written anion first still split', () => {
+    expect(dissociate('CH3COONa').ions).toEqual([
+      { formula: 'Na+', count: 1 },
+      { formula: 'CH3COO-', count: 1 },
+    ]);
+    const r = ionicEquations(sp('CH3COONa', 'HCl'), sp('CH3COOH', 'NaCl'), { left: [1, 1], right: [1, 1] });
+    expect(r.spectators).toEqual(['Na+', 'Cl-']);
+    expect(text(r.net)).toBe('CH3COO-(aq) + H+(aq) -> CH3COOH');
+  });
+
+  test('no net reaction when everything is a spectator', () => {
+    const r = ionicEquations(sp('NaCl', 'KNO3'), sp('NaNO3', 'KCl'));
+    expect(r.net).toBeNull();
+  });
+});
@@ -0,0 +1,40 @@
+import { molarMass, percentComposition } from '../lib/chem/mass';
+import { UnknownElementError } from '../lib/chem/parser';
+
+describe('molarMass', () => {
+  test('simple molecules', () => {
+    expect(molarMass('H2O', { precision: 3 })).toBe(18.015);
+    expect(molarMass('CO2', { precision: 2 })).toBe(44.01);
+    expect(molarMass('C3H8', { precision: 2 })).toBe(44.1);
+  });
+
+  test('groups, hydrates and ions', () => {
+    expect(molarMass('Ca3(PO4)2', { precision: 2 })).toBe(310.17);
+    expect(molarMass('CuSO4·5H2O', { precision: 2 })).toBe(249.68);
+    expect(molarMass('SO4^2-', { precision: 2 })).toBe(molarMass('SO4', { precision: 2 }));
+    expect(molarMass('e-')).toBe(0);
+  });
+
+  test('full precision unless asked to round', () => {
+    expect(molarMass('H2')).toBeCloseTo(2.016, 10);
+  });
+
+  test('unknown symbols throw', () => {
+    expect(() => molarMass('Xx2')).toThrow(UnknownElementError);
+  });
+});
+
+describe('percentComposition', () => {
+  test('water', () => {
+    expect(percentComposition('H2O', { precision: 2 })).toEqual([
+      { element: 'H', count: 2, mass: 2.02, percent: 11.19 },
+      { element: 'O', count: 1, mass: 16, percent: 88.81 },
+    ]);
+  });
+
+  test('percentages add up to 100', () => {
+    const total = percentComposition('K4[Fe(CN)6]')
+      .reduce((s, c) => s + c.percent, 0);
+    expect(total).toBeCloseTo(100, 10);
+  });
+});
@@ -0,0 +1,53 @@
+import { formatEquation } from '../lib/chem/parser';
+import { balanceMechanism, MechanismError, splitSteps, type MechanismTerm } from '../lib/chem/mechanism';
+
+const text = (r: { left: MechanismTerm[]; right: MechanismTerm[] }) => formatEquation(r.left, r.right);
+
+describe('splitSteps', () => {
+  test('one step per line or per semicolon', () => {
+    expect(splitSteps('A -> B\n\n B -> C ; C -> D')).toEqual(['A -> B', 'B -> C', 'C -> D']);
+  });
+});
+
+describe('balanceMechanism', () => {
+  test('chlorine-catalysed ozone destruction', () => {
+    const r = balanceMechanism(['Cl + O3 -> ClO + O2', 'ClO + O -> Cl + O2']);
+    expect(r.steps.map((s) => s.multiplier)).toEqual([1, 1]);
+    expect(text(r.net)).toBe('O3 + O -> 2O2');
+    expect(r.intermediates).toEqual(['ClO']);
+    expect(r.catalysts).toEqual(['Cl']);
+    expect(r.cancelled).toBe(true);
+  });
+
+  test('balances each step and scales steps to cancel intermediates', () => {
+    const r = balanceMechanism(['N2 + H2 -> NH3', 'NH3 + O2 -> NO + H2O', 'NO + O2 -> NO2']);
+    expect(r.steps.map((s) => text(s))).toEqual([
+      'N2 + 3H2 -> 2NH3',
+      '4NH3 + 5O2 -> 4NO + 6H2O',
+      '2NO + O2 -> 2NO2',
+    ]);
+    expect(r.steps.map((s) => s.multiplier)).toEqual([2, 1, 2]);
+    expect(text(r.net)).toBe('2N2 + 6H2 + 7O2 -> 6H2O + 4NO2');
+    expect(r.intermediates).toEqual(['NH3', 'NO']);
+    expect(r.catalysts).toEqual([]);
+  });
+
+  test('keeps typed coefficients that already balance a step', () => {
+    const r = balanceMechanism(['NO2 + NO2 -> NO3 + NO', 'NO3 + CO -> NO2 + CO2']);
+    expect(text(r.net)).toBe('NO2 + CO -> NO + CO2');
+    expect(r.intermediates).toEqual(['NO3']);
+  });
+
+  test('states are kept on the net reaction', () => {
+    const r = balanceMechanism(['H2O2(aq) + I^-(aq) -> H2O(l) + IO^-(aq)', 'H2O2(aq) + IO^-(aq) -> H2O(l) + O2(g) + I^-(aq)']);
+    expect(text(r.net)).toBe('2H2O2(aq) -> 2H2O(l) + O2(g)');
+    expect(r.catalysts).toEqual(['I^-']);
+    expect(r.intermediates).toEqual(['IO^-']);
+  });
+
+  test('steps that cannot be balanced are reported by number', () => {
+    expect(() => balanceMechanism(['H2 + O2 -> H2O', 'NaCl -> H2'])).toThrow(MechanismError);
+    expect(() => balanceMechanism(['H2 + O2 -> H2O', 'NaCl -> H2'])).toThrow(/Step 2/);
+    expect(() => balanceMechanism(['H2 + O2'])).toThrow(/Step 1 needs one arrow/);
+  });
+});
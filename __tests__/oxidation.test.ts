@@ -0,0 +1,96 @@
+import { analyzeOxidation, assignOxidationStates, formatOxidationState, polyatomicIons } from '../lib/chem/oxidation';
+
+describe('assignOxidationStates', () => {
+  test('free elements, monatomic ions and electrons', () => {
+    expect(assignOxidationStates('O2')).toEqual({ O: 0 });
+    expect(assignOxidationStates('Fe^3+')).toEqual({ Fe: 3 });
+    expect(assignOxidationStates('Cl^-')).toEqual({ Cl: -1 });
+    expect(assignOxidationStates('e-')).toEqual({});
+  });
+
+  test('rule order covers peroxides, fluorides and hydrides', () => {
+    expect(assignOxidationStates('KMnO4')).toEqual({ K: 1, Mn: 7, O: -2 });
+    expect(assignOxidationStates('Cr2O7^2-')).toEqual({ Cr: 6, O: -2 });
+    expect(assignOxidationStates('H2O2')).toEqual({ H: 1, O: -1 });
+    expect(assignOxidationStates('OF2')).toEqual({ F: -1, O: 2 });
+    expect(assignOxidationStates('NaH')).toEqual({ H: -1, Na: 1 });
+    expect(assignOxidationStates('LiAlH4')).toEqual({ Al: 3, H: -1, Li: 1 });
+    expect(assignOxidationStates('CH4')).toEqual({ C: -4, H: 1 });
+  });
+
+  test('more electronegative partners take their negative states', () => {
+    expect(assignOxidationStates('ICl')).toEqual({ Cl: -1, I: 1 });
+    expect(assignOxidationStates('KSCN')).toEqual({ C: 4, K: 1, N: -3, S: -2 });
+    expect(assignOxidationStates('CuFeS2')).toEqual({ Cu: 1, Fe: 3, S: -2 });
+  });
+
+  test('polyatomic ions, complexes and hydrates', () => {
+    expect(assignOxidationStates('Fe2(SO4)3')).toEqual({ Fe: 3, O: -2, S: 6 });
+    expect(assignOxidationStates('FeSO4')).toEqual({ Fe: 2, O: -2, S: 6 });
+    expect(assignOxidationStates('K4[Fe(CN)6]')).toEqual({ C: 2, Fe: 2, K: 1, N: -3 });
+    expect(assignOxidationStates('CuSO4·5H2O')).toEqual({ Cu: 2, H: 1, O: -2, S: 6 });
+  });
+
+  test('mixed sites average out', () => {
+    expect(formatOxidationState(assignOxidationStates('Fe3O4').Fe)).toBe('+8/3');
+    expect(formatOxidationState(assignOxidationStates('S4O6^2-').S)).toBe('+5/2');
+    expect(formatOxidationState(0)).toBe('0');
+    expect(formatOxidationState(-2)).toBe('-2');
+  });
+
+  test('disulfide and thiocyanate', () => {
+    expect(assignOxidationStates('FeS2')).toEqual({ Fe: 2, S: -1 });
+    expect(assignOxidationStates('FeS')).toEqual({ Fe: 2, S: -2 });
+    expect(assignOxidationStates('SCN^-')).toEqual({ C: 4, N: -3, S: -2 });
+    expect(assignOxidationStates('KSCN')).toEqual({ C: 4, K: 1, N: -3, S: -2 });
+  });
+
+  test('unknown symbols throw', () => {
+    expect(() => assignOxidationStates('Xx2O')).toThrow(/Unknown element/);
+  });
+});
+
+describe('polyatomicIons', () => {
+  test('bracketed, unbracketed and bare ions', () => {
+    expect(polyatomicIons('Ca3(PO4)2')).toEqual({ PO4: 2 });
+    expect(polyatomicIons('NH4NO3')).toEqual({ NH4: 1, NO3: 1 });
+    expect(polyatomicIons('(NH4)2SO4')).toEqual({ NH4: 2, SO4: 1 });
+    expect(polyatomicIons('SO4^2-')).toEqual({ SO4: 1 });
+    expect(polyatomicIons('CH4')).toEqual({});
+  });
+});
+
+describe('analyzeOxidation', () => {
+  test('copper in nitric acid', () => {
+    const r = analyzeOxidation(['Cu', 'HNO3'], ['Cu(NO3)2', 'NO', 'H2O']);
+    expect(r.isRedox).toBe(true);
+    expect(r.changes.map((c) => [c.element, c.from.formula, c.to.formula, c.kind, c.delta])).toEqual([
+      ['Cu', 'Cu', 'Cu(NO3)2', 'oxidized', 2],
+      ['N', 'HNO3', 'NO', 'reduced', -3],
+    ]);
+    expect(r.oxidizingAgents).toEqual([1]);
+    expect(r.reducingAgents).toEqual([0]);
+  });
+
+  test('disproportionation makes one species both agents', () => {
+    const r = analyzeOxidation(['Cl2', 'NaOH'], ['NaCl', 'NaClO', 'H2O']);
+    expect(r.oxidizingAgents).toEqual([0]);
+    expect(r.reducingAgents).toEqual([0]);
+  });
+
+  test('comproportionation is seen site by site', () => {
+    const r = analyzeOxidation(['NH4NO3'], ['N2O', 'H2O']);
+    expect(r.isRedox).toBe(true);
+    expect(r.changes.map((c) => [c.from.state, c.to.state, c.kind])).toEqual([
+      [-3, 1, 'oxidized'],
+      [5, 1, 'reduced'],
+    ]);
+    expect(analyzeOxidation(['NH4NO3'], ['NH4+', 'NO3-']).isRedox).toBe(false);
+  });
+
+  test('non-redox reactions report no changes', () => {
+    const r = analyzeOxidation(['AgNO3', 'NaCl'], ['AgCl', 'NaNO3']);
+    expect(r.isRedox).toBe(false);
+    expect(r.changes).toEqual([]);
+  });
+});
@@ -0,0 +1,72 @@
+import { formatEquation } from '../lib/chem/parser';
+import { predictionInput, predictProducts, PredictionError } from '../lib/chem/predict';
+import { parseEquation } from '../lib/chem/diagnostics';
+
+const predict = (...left: string[]) => {
+  const p = predictProducts(left);
+  const terms = (fs: string[], k: number[]) => fs.map((formula, i) => ({ formula, coeff: k[i] }));
+  return formatEquation(terms(p.left, p.coeffs.left), terms(p.right, p.coeffs.right));
+};
+
+describe('predictProducts', () => {
+  test('combustion', () => {
+    expect(predict('C3H8', 'O2')).toBe('C3H8 + 5O2 -> 3CO2 + 4H2O');
+    expect(predict('C2H5OH', 'O2')).toBe('C2H5OH + 3O2 -> 2CO2 + 3H2O');
+  });
+
+  test('double replacement by solubility', () => {
+    expect(predict('AgNO3', 'NaCl')).toBe('AgNO3 + NaCl -> AgCl + NaNO3');
+    expect(predictProducts(['AgNO3', 'NaCl']).type).toBe('precipitation');
+    expect(predict('Na2CO3', 'HCl')).toBe('Na2CO3 + 2HCl -> 2NaCl + H2O + CO2');
+    expect(() => predictProducts(['NaCl', 'KNO3'])).toThrow(/both soluble/);
+  });
+
+  test('neutralization', () => {
+    expect(predict('H2SO4', 'NaOH')).toBe('H2SO4 + 2NaOH -> Na2SO4 + 2H2O');
+    expect(predict('HCl', 'NH3')).toBe('HCl + NH3 -> NH4Cl');
+  });
+
+  test('single replacement follows the activity series', () => {
+    expect(predict('Zn', 'CuSO4')).toBe('Zn + CuSO4 -> ZnSO4 + Cu');
+    expect(predict('Mg', 'HCl')).toBe('Mg + 2HCl -> MgCl2 + H2');
+    expect(predict('Na', 'H2O')).toBe('2Na + 2H2O -> 2NaOH + H2');
+    expect(predict('Cl2', 'KBr')).toBe('Cl2 + 2KBr -> 2KCl + Br2');
+    expect(() => predictProducts(['Cu', 'HCl'])).toThrow(/below H/);
+  });
+
+  test('synthesis and decomposition', () => {
+    expect(predict('Al', 'O2')).toBe('4Al + 3O2 -> 2Al2O3');
+    expect(predict('Fe', 'Cl2')).toBe('2Fe + 3Cl2 -> 2FeCl3');
+    expect(predict('CaO', 'H2O')).toBe('CaO + H2O -> Ca(OH)2');
+    expect(predict('CaCO3')).toBe('CaCO3 -> CaO + CO2');
+    expect(predict('KClO3')).toBe('2KClO3 -> 2KCl + 3O2');
+    expect(predict('H2O')).toBe('2H2O -> 2H2 + O2');
+  });
+
+  test('acids written H-last, carbonic acid from HCO3- and nonmetals in oxygen', () => {
+    expect(predict('CH3COOH', 'NaOH')).toBe('CH3COOH + NaOH -> NaCH3COO + H2O');
+    expect(predictProducts(['CH3COOH', 'NaOH']).type).toBe('neutralization');
+    expect(predict('NaHCO3', 'HCl')).toBe('NaHCO3 + HCl -> NaCl + H2O + CO2');
+    expect(predict('S', 'O2')).toBe('S + O2 -> SO2');
+    expect(predict('P4', 'O2')).toBe('P4 + 5O2 -> P4O10');
+  });
+
+  test('unknown patterns', () => {
+    expect(() => predictProducts(['CO2', 'N2'])).toThrow(PredictionError);
+  });
+
+  test('malformed formulas are not guessed at', () => {
+    expect(() => predictProducts(['C3H8(', 'O2'])).toThrow(/never closed/);
+    expect(() => predictProducts(['Ca(OH', 'HCl'])).toThrow(/Fix Ca\(OH first/);
+    // Warnings alone (a spaced-out subscript) do not block a prediction.
+    expect(predictProducts(['Mg', 'O2 2']).type).toBe('synthesis');
+  });
+
+  test('a reactants-only equation reaches prediction', () => {
+    expect(predictionInput(parseEquation('Zn + CuSO4 ->'))).toEqual(['Zn', 'CuSO4']);
+    expect(predictProducts(predictionInput(parseEquation('Zn + CuSO4 -> '))!).right).toEqual(['ZnSO4', 'Cu']);
+    expect(predictionInput(parseEquation('Zn + CuSO4 -> Cu'))).toBeNull();
+    expect(predictionInput(parseEquation('C3H8( + O2 ->'))).toBeNull();
+    expect(predictionInput(parseEquation('->'))).toBeNull();
+  });
+});
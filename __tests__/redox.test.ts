@@ -0,0 +1,66 @@
+import { formatEquation } from '../lib/chem/parser';
+import { balanceRedox, RedoxError, type Reaction } from '../lib/chem/redox';
+
+const text = (r: Reaction) => formatEquation(r.left, r.right);
+
+describe('balanceRedox – ion-electron method', () => {
+  test('permanganate + iron(II) in acid', () => {
+    const r = balanceRedox(['MnO4^-', 'Fe^2+'], ['Mn^2+', 'Fe^3+'], 'acidic');
+    expect(text(r.reaction)).toBe('MnO4^- + 5Fe^2+ + 8H^+ -> Mn^2+ + 5Fe^3+ + 4H2O');
+    expect(r.halves.map((h) => [h.kind, h.electrons])).toEqual([
+      ['oxidation', 1],
+      ['reduction', 5],
+    ]);
+    expect(text(r.halves[1].reaction)).toBe('MnO4^- + 8H^+ + 5e- -> Mn^2+ + 4H2O');
+  });
+
+  test('dichromate + iodide in acid, with intermediate steps', () => {
+    const r = balanceRedox(['Cr2O7^2-', 'I^-'], ['Cr^3+', 'I2']);
+    expect(text(r.reaction)).toBe('Cr2O7^2- + 6I^- + 14H^+ -> 2Cr^3+ + 3I2 + 7H2O');
+    expect(r.halves[1].steps.map((s) => s.title)).toEqual([
+      'Skeleton half-reaction',
+      'Balance Cr',
+      'Add 7 H2O to balance O',
+      'Add 14 H+ to balance H',
+      'Add 6 e- to balance charge',
+    ]);
+  });
+
+  test('permanganate + iodide in base', () => {
+    const r = balanceRedox(['MnO4^-', 'I^-'], ['MnO2', 'I2'], 'basic');
+    expect(text(r.reaction)).toBe('2MnO4^- + 6I^- + 4H2O -> 2MnO2 + 3I2 + 8OH^-');
+  });
+
+  test('disproportionation of chlorine in base', () => {
+    const r = balanceRedox(['Cl2'], ['Cl^-', 'ClO3^-'], 'basic');
+    expect(text(r.reaction)).toBe('3Cl2 + 6OH^- -> 5Cl^- + ClO3^- + 3H2O');
+  });
+
+  test('medium species already in the skeleton are re-derived', () => {
+    const r = balanceRedox(['MnO4^-', 'Fe^2+', 'H+'], ['Mn^2+', 'Fe^3+', 'H2O']);
+    expect(text(r.reaction)).toBe('MnO4^- + 5Fe^2+ + 8H^+ -> Mn^2+ + 5Fe^3+ + 4H2O');
+  });
+
+  test('molecular skeletons are reduced to their net ionic form', () => {
+    const r = balanceRedox(['KMnO4', 'HCl'], ['KCl', 'MnCl2', 'H2O', 'Cl2']);
+    expect(text(r.skeleton)).toBe('MnO4- + Cl- -> Mn^2+ + Cl2');
+    expect(text(r.reaction)).toBe('2MnO4- + 10Cl- + 16H^+ -> 2Mn^2+ + 5Cl2 + 8H2O');
+
+    const copper = balanceRedox(['Cu', 'HNO3'], ['Cu(NO3)2', 'NO', 'H2O']);
+    expect(text(copper.reaction)).toBe('3Cu + 2NO3- + 8H^+ -> 3Cu^2+ + 2NO + 4H2O');
+
+    const dichromate = balanceRedox(['K2Cr2O7', 'FeSO4', 'H2SO4'], ['Cr2(SO4)3', 'Fe2(SO4)3', 'K2SO4', 'H2O']);
+    expect(text(dichromate.reaction)).toBe('Cr2O7^2- + 6Fe^2+ + 14H^+ -> 2Cr^3+ + 6Fe^3+ + 7H2O');
+  });
+
+  test('water is kept when its atoms change oxidation number', () => {
+    expect(text(balanceRedox(['H2O2'], ['H2O', 'O2']).reaction)).toBe('2H2O2 -> 2H2O + O2');
+    expect(text(balanceRedox(['MnO4^-', 'H2O2'], ['Mn^2+', 'O2', 'H2O']).reaction))
+      .toBe('2MnO4^- + 5H2O2 + 6H^+ -> 2Mn^2+ + 5O2 + 8H2O');
+  });
+
+  test('non-redox equations are rejected', () => {
+    expect(() => balanceRedox(['Ag^+', 'Cl^-'], ['AgCl'])).toThrow(RedoxError);
+    expect(() => balanceRedox(['NaOH', 'HCl'], ['NaCl'])).toThrow(RedoxError);
+  });
+});
@@ -0,0 +1,47 @@
+import { solutionMoles, solutionVolume, SolutionError, titrate } from '../lib/chem/solution';
+
+describe('solution stoichiometry and titration', () => {
+  test('molarity × volume', () => {
+    expect(solutionMoles(0.5, { value: 250, unit: 'mL' })).toBeCloseTo(0.125, 10);
+    expect(solutionVolume(0.125, 0.5, 'mL')).toBeCloseTo(250, 10);
+  });
+
+  test('analyte concentration from the end point', () => {
+    // H2SO4 + 2 NaOH -> Na2SO4 + 2 H2O; 0.100 M NaOH, 25.0 mL of acid
+    const r = titrate({
+      titrant: { formula: 'NaOH', coeff: 2 },
+      analyte: { formula: 'H2SO4', coeff: 1 },
+      titrantMolarity: 0.1,
+      titrantVolume: { value: 30, unit: 'mL' },
+      analyteVolume: { value: 25, unit: 'mL' },
+    });
+    expect(r.titrantMoles).toBeCloseTo(0.003, 10);
+    expect(r.analyteMoles).toBeCloseTo(0.0015, 10);
+    expect(r.analyteMolarity).toBeCloseTo(0.06, 10);
+    expect(r.totalVolume).toBeCloseTo(0.055, 10);
+  });
+
+  test('equivalence volume from a known analyte concentration (redox)', () => {
+    // MnO4- + 5 Fe^2+ + 8 H+ -> Mn^2+ + 5 Fe^3+ + 4 H2O
+    const r = titrate({
+      titrant: { formula: 'MnO4-', coeff: 1 },
+      analyte: { formula: 'Fe^2+', coeff: 5 },
+      titrantMolarity: 0.02,
+      analyteMolarity: 0.1,
+      analyteVolume: { value: 20, unit: 'mL' },
+    });
+    expect(r.equivalenceVolume * 1000).toBeCloseTo(20, 10);
+  });
+
+  test('bad input', () => {
+    const base = {
+      titrant: { formula: 'NaOH', coeff: 1 },
+      analyte: { formula: 'HCl', coeff: 1 },
+      titrantMolarity: 0.1,
+      analyteVolume: { value: 25, unit: 'mL' as const },
+    };
+    expect(() => titrate(base)).toThrow(/titrant volume at the end point/);
+    expect(() => titrate({ ...base, titrantMolarity: 0, analyteMolarity: 1 })).toThrow(SolutionError);
+    expect(() => titrate({ ...base, analyte: base.titrant, analyteMolarity: 1 })).toThrow(/different species/);
+  });
+});
@@ -0,0 +1,245 @@
+import * as Parser from '../lib/chem/parser';
+import * as Solver from '../lib/chem/solver';
+
+const solve = (eqn: string) => {
+  const split = Parser.splitEquation(eqn)!;
+  return Solver.solveEquation(
+    split.left.map((s) => Parser.parseSpecies(s).formula),
+    split.right.map((s) => Parser.parseSpecies(s).formula),
+    Parser.countElementsInFormula,
+    Parser.formulaCharge
+  );
+};
+
+describe('solveEquation – molecular equations', () => {
+  test('propane combustion', () => {
+    expect(solve('C3H8 + O2 -> CO2 + H2O'))
+      .toEqual({ left: [1, 5], right: [3, 4] });
+  });
+});
+
+describe('solveEquation – ionic equations', () => {
+  test('permanganate / iron(II) in acid', () => {
+    expect(solve('MnO4^- + Fe^2+ + H^+ -> Mn^2+ + Fe^3+ + H2O'))
+      .toEqual({ left: [1, 5, 8], right: [1, 5, 4] });
+  });
+
+  test('half-reaction with free electrons', () => {
+    expect(solve('Cr2O7^2- + H^+ + e- -> Cr^3+ + H2O'))
+      .toEqual({ left: [1, 14, 6], right: [2, 7] });
+  });
+
+  test('charge row is only added when something is charged', () => {
+    const neutral = Solver.buildElementMatrix(['H2', 'O2'], ['H2O'],
+      Parser.countElementsInFormula, Parser.formulaCharge);
+    expect(neutral.rowLabels).toEqual(['H', 'O']);
+
+    const ionic = Solver.buildElementMatrix(['Fe^3+', 'e-'], ['Fe^2+'],
+      Parser.countElementsInFormula, Parser.formulaCharge);
+    expect(ionic.rowLabels).toEqual(['Fe', Solver.CHARGE_ROW]);
+    expect(ionic.A).toEqual([[1, 0, -1], [3, -1, -2]]);
+  });
+});
+
+describe('analyzeBalanceability – null space', () => {
+  const analyze = (left: string[], right: string[]) =>
+    Solver.analyzeBalanceability(left, right, Parser.countElementsInFormula,
+      Parser.formulaCharge);
+
+  test('unique reaction has rank = species - 1 and nullity 1', () => {
+    const r = analyze(['C3H8', 'O2'], ['CO2', 'H2O']);
+    expect(r.rank).toBe(3);
+    expect(r.nullity).toBe(1);
+    expect(r.basis).toEqual([{ left: [1, 5], right: [3, 4] }]);
+  });
+
+  test('H2O2 -> H2O + O2 + H2 mixes two independent reactions', () => {
+    const r = analyze(['H2O2'], ['H2O', 'O2', 'H2']);
+    expect(r.rank).toBe(2);
+    expect(r.nullity).toBe(2);
+    expect(r.basis).toHaveLength(2);
+    const { A } = Solver.buildElementMatrix(['H2O2'], ['H2O', 'O2', 'H2'],
+      Parser.countElementsInFormula);
+    for (const b of r.basis) {
+      const x = [...b.left, ...b.right];
+      expect(x.every(Number.isInteger)).toBe(true);
+      for (const row of A) expect(row.reduce((s, a, j) => s + a * x[j], 0)).toBe(0);
+    }
+  });
+
+  test('nullSpaceBasis gives every vector or none', () => {
+    expect(Solver.nullSpaceBasis([[1, 0, -1, 0], [0, 2, -1, 0]]))
+      .toEqual([[2, 1, 2, 0], [0, 0, 0, 1]]);
+    // x3 = (1e9 + 7)(1e9 + 9) is past Number.MAX_SAFE_INTEGER
+    expect(Solver.nullSpaceBasis([[1e9 + 7, 0, -1, 0], [0, 1e9 + 9, -1, 0]])).toBeNull();
+  });
+
+  test('no solution at all gives nullity 0', () => {
+    const r = analyze(['H2'], ['O2']);
+    expect(r.nullity).toBe(0);
+    expect(r.balanceableAllSpecies).toBe(false);
+  });
+
+  test('combineReactions sums and reduces weighted basis vectors', () => {
+    expect(Solver.combineReactions([[2, 2, 1, 0], [2, 0, 0, 2]], [1, 1]))
+      .toEqual([4, 2, 1, 2]);
+    expect(Solver.combineReactions([[2, 4], [2, 0]], [1, 0])).toEqual([1, 2]);
+    expect(Solver.combineReactions([[4.6e15, 0], [1, 1]], [2, 1])).toBeNull();
+  });
+});
+
+describe('analyzeBalanceability – positive minimal coefficients', () => {
+  const analyze = (left: string[], right: string[]) =>
+    Solver.analyzeBalanceability(left, right, Parser.countElementsInFormula,
+      Parser.formulaCharge);
+
+  test('finds the smallest all-positive mix when nullity > 1', () => {
+    const r = analyze(['H2O2'], ['H2O', 'O2', 'H2']);
+    expect(r.balanceableAllSpecies).toBe(true);
+    expect(r.suggestion).toEqual({ left: [3], right: [2, 2, 1] });
+  });
+
+  test('never returns a zero coefficient', () => {
+    // H2 + O2 + N2 -> H2O : N2 can only get a zero coefficient
+    const r = analyze(['H2', 'O2', 'N2'], ['H2O']);
+    expect(r.balanceableAllSpecies).toBe(false);
+    expect(r.suggestion).toBeUndefined();
+    expect(r.fixes?.drop?.species).toEqual([{ side: 'left', index: 2 }]);
+    expect(r.fixes?.drop?.reaction).toEqual({ left: [2, 1, 0], right: [2] });
+  });
+
+  test('reports species that belong on the other side', () => {
+    // O2 is really a product of water splitting
+    const r = analyze(['H2O', 'O2'], ['H2']);
+    expect(r.balanceableAllSpecies).toBe(false);
+    expect(r.fixes?.move?.species).toEqual([{ side: 'left', index: 1 }]);
+    expect(r.fixes?.move?.reaction).toEqual({ left: [2, -1], right: [2] });
+  });
+});
+
+describe('solveEquation – exact arithmetic on large systems', () => {
+  test('ferrocyanide / permanganate (coefficients in the hundreds)', () => {
+    expect(solve(
+      'K4Fe(CN)6 + KMnO4 + H2SO4 -> KHSO4 + Fe2(SO4)3 + MnSO4 + HNO3 + CO2 + H2O'
+    )).toEqual({ left: [10, 122, 299], right: [162, 5, 122, 60, 60, 188] });
+  });
+
+  test('Chevreul-style mixed-valence redox', () => {
+    expect(solve(
+      '[Cr(N2H4CO)6]4[Cr(CN)6]3 + KMnO4 + H2SO4 -> K2Cr2O7 + MnSO4 + CO2 + KNO3 + K2SO4 + H2O'
+    )).toEqual({
+      left: [10, 1176, 1399],
+      right: [35, 1176, 420, 660, 223, 1879],
+    });
+  });
+});
+
+describe('traceSolve – worked elimination', () => {
+  const count = Parser.countElementsInFormula;
+
+  test('propane combustion: matrix, row operations, back-substitution, scaling', () => {
+    const t = Solver.traceSolve(['C3H8', 'O2'], ['CO2', 'H2O'], count)!;
+    expect(t.rowLabels).toEqual(['C', 'H', 'O']);
+    expect(t.colLabels).toEqual(['C3H8', 'O2', 'CO2', 'H2O']);
+    expect(t.matrix).toEqual([[3, 0, -1, 0], [8, 0, 0, -2], [0, 2, -2, -1]]);
+    expect(t.operations.slice(0, 3).map((o) => o.text))
+      .toEqual(['R1 ← R1 ÷ 3', 'R2 ← R2 − 8·R1', 'R2 ↔ R3']);
+    expect(t.reduced).toEqual([['1', '0', '0', '-1/4'], ['0', '1', '0', '-5/4'], ['0', '0', '1', '-3/4']]);
+    expect(t.pivotCols).toEqual([0, 1, 2]);
+    expect(t.freeCols).toEqual([3]);
+    expect(t.backSubstitution[0]).toEqual({ col: 0, terms: [{ coeff: '1/4', col: 3 }] });
+    expect(t.rational).toEqual(['1/4', '5/4', '3/4', '1']);
+    expect(t.lcm).toBe(4);
+    expect(t.solution).toEqual({ left: [1, 5], right: [3, 4] });
+  });
+
+  test('charge row is labelled and the last operation leaves the reduced form', () => {
+    const t = Solver.traceSolve(['Fe^3+', 'e-'], ['Fe^2+'], count, Parser.formulaCharge)!;
+    expect(t.rowLabels).toEqual(['Fe', Solver.CHARGE_ROW]);
+    expect(t.operations.at(-1)!.matrix).toEqual(t.reduced);
+    expect(t.solution).toEqual({ left: [1, 1], right: [1] });
+  });
+});
+
+describe('solveWithPins – coefficients fixed by the user', () => {
+  const count = Parser.countElementsInFormula;
+  const L = ['C3H8', 'O2'];
+  const R = ['CO2', 'H2O'];
+
+  test('fills in the rest around a pin', () => {
+    expect(Solver.solveWithPins(L, R, count, { left: [1, null], right: [null, null] }))
+      .toEqual({ ok: true, coefficients: { left: [1, 5], right: [3, 4] } });
+    expect(Solver.solveWithPins(L, R, count, { left: [2, null], right: [null, null] }))
+      .toEqual({ ok: true, coefficients: { left: [2, 10], right: [6, 8] } });
+  });
+
+  test('picks the smallest completion when pins leave freedom', () => {
+    const r = Solver.solveWithPins(['H2O2'], ['H2O', 'O2', 'H2'], count, {
+      left: [null], right: [null, null, 1],
+    });
+    expect(r).toEqual({ ok: true, coefficients: { left: [3], right: [2, 2, 1] } });
+  });
+
+  test('names the element fully fixed by inconsistent pins', () => {
+    const r = Solver.solveWithPins(L, R, count, { left: [1, null], right: [1, null] });
+    expect(r).toMatchObject({ ok: false, reason: 'conflict', row: 'C' });
+  });
+
+  test('asks for a multiplier when the pins force fractions', () => {
+    const r = Solver.solveWithPins(L, R, count, { left: [null, 1], right: [null, null] });
+    expect(r).toMatchObject({ ok: false, reason: 'fractional', multiplier: 5 });
+  });
+
+  test('flags species that would need a non-positive coefficient', () => {
+    const r = Solver.solveWithPins(['C', 'O2'], ['CO2', 'CO'], count, {
+      left: [1, null], right: [2, null],
+    });
+    expect(r).toMatchObject({ ok: false, reason: 'not-positive', species: [{ side: 'right', index: 1 }] });
+  });
+
+  test('refuses coefficients past the safe integer range instead of rounding', () => {
+    const r = Solver.solveWithPins(['H2', 'O2'], ['H2O'], count, { left: [null, 4.6e15], right: [null] });
+    expect(r).toMatchObject({ ok: false, reason: 'too-large' });
+  });
+});
+
+describe('diagnoseBalanceability – why an equation will not balance', () => {
+  const count = Parser.countElementsInFormula;
+  const charge = Parser.formulaCharge;
+
+  test('one-sided elements and a missing reactant', () => {
+    const d = Solver.diagnoseBalanceability(['C3H8'], ['CO2', 'H2O'], count);
+    expect(d.oneSided).toEqual([{ row: 'O', side: 'right' }]);
+    expect(d.inconsistentRows).toEqual(['O']);
+    expect(d.missing[0]).toEqual({
+      add: [{ formula: 'O2', side: 'left' }],
+      reaction: { left: [1, 5], right: [3, 4] },
+    });
+  });
+
+  test('isolated and redundant species', () => {
+    const d = Solver.diagnoseBalanceability(['NO2', 'N2O4'], ['N2', 'O2', 'Na'], count);
+    expect(d.isolated).toEqual([{ side: 'right', index: 2 }]);
+    expect(d.dependent[0]).toEqual({
+      species: { side: 'left', index: 0 },
+      from: [{ species: { side: 'left', index: 1 }, coeff: '1/2' }],
+    });
+    expect(d.missing).toEqual([]);
+  });
+
+  test('skeleton redox equations get H2O with H+ or OH-', () => {
+    const d = Solver.diagnoseBalanceability(['MnO4^-', 'Fe^2+'], ['Mn^2+', 'Fe^3+'], count, charge);
+    expect(d.missing.map((m) => m.add)).toContainEqual([
+      { formula: 'H2O', side: 'right' },
+      { formula: 'H^+', side: 'left' },
+    ]);
+  });
+
+  test('balanceable equations report nothing to fix', () => {
+    const d = Solver.diagnoseBalanceability(['H2', 'O2'], ['H2O'], count);
+    expect(d.oneSided).toEqual([]);
+    expect(d.isolated).toEqual([]);
+    expect(d.inconsistentRows).toEqual([]);
+    expect(d.missing).toEqual([]);
+  });
+});
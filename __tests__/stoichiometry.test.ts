@@ -0,0 +1,118 @@
+import {
+  AVOGADRO,
+  percentYield,
+  stoichiometry,
+  StoichiometryError,
+  toMoles,
+} from '../lib/chem/stoichiometry';
+import { STP } from '../lib/chem/gas';
+
+describe('stoichiometry – limiting reagent and yields', () => {
+  // C3H8 + 5 O2 -> 3 CO2 + 4 H2O
+  const reactants = [{ formula: 'C3H8', coeff: 1 }, { formula: 'O2', coeff: 5 }];
+  const products = [{ formula: 'CO2', coeff: 3 }, { formula: 'H2O', coeff: 4 }];
+
+  test('10 g propane + 20 g oxygen: oxygen limits', () => {
+    const r = stoichiometry(reactants, products, [
+      { value: 10, unit: 'g' },
+      { value: 20, unit: 'g' },
+    ]);
+    expect(r.limiting).toEqual([1]);
+    expect(r.extent).toBeCloseTo(20 / 31.998 / 5, 10);
+    expect(r.products[0].theoretical.grams).toBeCloseTo(16.5, 1);
+    expect(r.reactants[1].leftover!.grams).toBe(0);
+    expect(r.reactants[0].leftover!.grams).toBeCloseTo(10 - 0.125 * 44.097, 2);
+  });
+
+  test('blank amounts are treated as excess', () => {
+    const r = stoichiometry(reactants, products, [{ value: 2, unit: 'mol' }, null]);
+    expect(r.limiting).toEqual([0]);
+    expect(r.reactants[1].given).toBeNull();
+    expect(r.reactants[1].consumed.moles).toBe(10);
+    expect(r.products[1].theoretical.moles).toBe(8);
+  });
+
+  test('exactly stoichiometric mixtures report every reactant as limiting', () => {
+    const r = stoichiometry(reactants, products, [
+      { value: 1, unit: 'mol' },
+      { value: 5, unit: 'mol' },
+    ]);
+    expect(r.limiting).toEqual([0, 1]);
+  });
+
+  test('percent yield from an actual yield', () => {
+    const r = stoichiometry(reactants, products,
+      [{ value: 1, unit: 'mol' }, null],
+      [{ value: 1.5, unit: 'mol' }, null]);
+    expect(r.products[0].percentYield).toBeCloseTo(50, 10);
+    expect(r.products[1].percentYield).toBeNull();
+    expect(percentYield(3, 4)).toBe(75);
+  });
+
+  test('unit conversions', () => {
+    expect(toMoles({ value: AVOGADRO, unit: 'particles' }, 18)).toBeCloseTo(1, 12);
+    expect(toMoles({ value: 36, unit: 'g' }, 18)).toBe(2);
+  });
+
+  test('rejects unbalanced coefficients and missing amounts', () => {
+    expect(() => stoichiometry([{ formula: 'H2', coeff: 0 }], products, [null]))
+      .toThrow(StoichiometryError);
+    expect(() => stoichiometry(reactants, products, [null, null]))
+      .toThrow('at least one reactant');
+  });
+});
+
+describe('stoichiometry – gas volumes', () => {
+  // N2(g) + 3 H2(g) -> 2 NH3(g)
+  const reactants = [
+    { formula: 'N2', coeff: 1, state: 'g' as const },
+    { formula: 'H2', coeff: 3, state: 'g' as const },
+  ];
+  const products = [{ formula: 'NH3', coeff: 2, state: 'g' as const }];
+
+  test('volumes in, volumes out at STP', () => {
+    const r = stoichiometry(reactants, products, [null, { value: 15, unit: 'L' }], [], { conditions: STP });
+    expect(r.products[0].theoretical.liters).toBeCloseTo(10, 10);
+    expect(r.reactants[0].consumed.liters).toBeCloseTo(5, 10);
+    expect(r.reactants[1].given!.moles).toBeCloseTo(15 / 22.414, 4);
+  });
+
+  test('volumes need conditions and a (g) species', () => {
+    expect(() => stoichiometry(reactants, products, [{ value: 1, unit: 'L' }, null]))
+      .toThrow(/temperature and pressure/);
+    expect(() =>
+      stoichiometry([{ formula: 'C', coeff: 1, state: 's' }], [{ formula: 'CO2', coeff: 1, state: 'g' }],
+        [{ value: 1, unit: 'L' }], [], { conditions: STP })
+    ).toThrow(/mark C as \(g\)/);
+  });
+});
+
+describe('stoichiometry – solutions', () => {
+  // AgNO3(aq) + NaCl(aq) -> AgCl(s) + NaNO3(aq)
+  const reactants = [
+    { formula: 'AgNO3', coeff: 1, state: 'aq' as const },
+    { formula: 'NaCl', coeff: 1, state: 'aq' as const },
+  ];
+  const products = [
+    { formula: 'AgCl', coeff: 1, state: 's' as const },
+    { formula: 'NaNO3', coeff: 1, state: 'aq' as const },
+  ];
+
+  test('molarity × volume as an amount', () => {
+    const r = stoichiometry(reactants, products, [
+      { value: 0.2, unit: 'M', volume: { value: 50, unit: 'mL' } },
+      { value: 0.1, unit: 'M', volume: { value: 50, unit: 'mL' } },
+    ]);
+    expect(r.limiting).toEqual([1]);
+    expect(r.products[0].theoretical.moles).toBeCloseTo(0.005, 10);
+  });
+
+  test('molarity needs a volume and an (aq) species', () => {
+    expect(() => stoichiometry(reactants, products, [{ value: 0.2, unit: 'M' }, null]))
+      .toThrow(/volume with the molarity/);
+    expect(() =>
+      stoichiometry([{ formula: 'AgNO3', coeff: 1, state: 's' }], [{ formula: 'Ag', coeff: 1 }],
+        [{ value: 0.2, unit: 'M', volume: { value: 1, unit: 'L' } }])
+    ).toThrow(/mark AgNO3 as \(aq\)/);
+  });
+});
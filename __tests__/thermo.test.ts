@@ -0,0 +1,56 @@
+import { gibbsAt, lookupThermo, reactionThermo, THERMO_TABLE } from '../lib/chem/thermo';
+
+describe('lookupThermo', () => {
+  test('matches by composition, charge and state', () => {
+    expect(lookupThermo('H2O', 'g')!.dHf).toBe(-241.8);
+    expect(lookupThermo('H2O')!.state).toBe('l');
+    expect(lookupThermo('CH4O', 'l')!.formula).toBe('CH3OH');
+    expect(lookupThermo('Fe^3+', 'aq')!.dGf).toBe(-4.7);
+    expect(lookupThermo('SO4^2-', 'aq')).toBeDefined();
+    expect(lookupThermo('CaCO3', 'aq')).toBeUndefined();
+    expect(lookupThermo('Xx2')).toBeUndefined();
+  });
+
+  test('elements in their standard state are zero', () => {
+    for (const e of THERMO_TABLE.filter((x) => ['H2', 'O2', 'Fe', 'C'].includes(x.formula))) {
+      expect([e.dHf, e.dGf]).toEqual([0, 0]);
+    }
+  });
+});
+
+describe('reactionThermo', () => {
+  test('2H2(g) + O2(g) -> 2H2O(l)', () => {
+    const r = reactionThermo(
+      [{ formula: 'H2', coeff: 2, state: 'g' }, { formula: 'O2', coeff: 1, state: 'g' }],
+      [{ formula: 'H2O', coeff: 2, state: 'l' }]
+    );
+    expect(r.dH).toBeCloseTo(-571.6, 6);
+    expect(r.dS).toBeCloseTo(-326.6, 6);
+    expect(r.dG).toBeCloseTo(-474.2, 6);
+    // ΔH − TΔS agrees with the ΔGf° route at 298.15 K.
+    expect(gibbsAt(r, 298.15)).toBeCloseTo(r.dG!, 0);
+    expect(r.crossover).toBeCloseTo(571600 / 326.6, 6);
+  });
+
+  test('CaCO3 decomposition becomes spontaneous above ~1119 K', () => {
+    const r = reactionThermo(
+      [{ formula: 'CaCO3', coeff: 1 }],
+      [{ formula: 'CaO', coeff: 1 }, { formula: 'CO2', coeff: 1 }]
+    );
+    expect(r.dH).toBeCloseTo(179.2, 6);
+    expect(r.dS).toBeCloseTo(160.2, 6);
+    expect(r.crossover).toBeCloseTo(1118.6, 1);
+    expect(gibbsAt(r, 1200)!).toBeLessThan(0);
+    expect(r.terms.every((t) => t.assumedState)).toBe(true);
+  });
+
+  test('missing species are flagged and totals left out', () => {
+    const r = reactionThermo(
+      [{ formula: 'C7H16', coeff: 1, state: 'l' }, { formula: 'O2', coeff: 11, state: 'g' }],
+      [{ formula: 'CO2', coeff: 7, state: 'g' }, { formula: 'H2O', coeff: 8, state: 'l' }]
+    );
+    expect(r.missing.map((t) => t.formula)).toEqual(['C7H16']);
+    expect(r.dH).toBeNull();
+    expect(gibbsAt(r, 298.15)).toBeNull();
+  });
+});
@@ -73,6 +73,18 @@ export default function AppLayout({ children }: { children: React.ReactNode }) {
               >
                 Playground
               </Link>
+              <Link
+                href="/molar-mass"
+                className="text-sm text-ink/80 dark:text-surface/80 hover:text-brand dark:hover:text-brand"
+              >
+                Molar mass
+              </Link>
+              <Link
+                href="/mechanism"
+                className="text-sm text-ink/80 dark:text-surface/80 hover:text-brand dark:hover:text-brand"
+              >
+                Mechanisms
+              </Link>
               <a
                 href="#how-it-works"
                 className="text-sm text-ink/80 dark:text-surface/80 hover:text-brand dark:hover:text-brand hidden sm:inline"
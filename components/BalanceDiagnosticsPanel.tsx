@@ -0,0 +1,92 @@
+// components/BalanceDiagnosticsPanel.tsx
+import React, { useMemo } from "react";
+import { countElementsInFormula, formatEquation, formulaCharge, type Species } from "../lib/chem/parser";
+import { CHARGE_ROW, diagnoseBalanceability, type SpeciesRef } from "../lib/chem/solver";
+
+const rowName = (row: string) => (row === CHARGE_ROW ? "Charge" : row);
+
+export default function BalanceDiagnosticsPanel({
+  left,
+  right,
+  onUse,
+}: {
+  left: Species[];
+  right: Species[];
+  onUse: (equation: string) => void;
+}) {
+  const formulas = (list: Species[]) => list.map((sp) => sp.formula);
+  const d = useMemo(
+    () => diagnoseBalanceability(formulas(left), formulas(right), countElementsInFormula, formulaCharge),
+    [formulas(left).join("|"), formulas(right).join("|")]
+  );
+  const name = (r: SpeciesRef) => (r.side === "left" ? left : right)[r.index].formula;
+  const total = left.length + right.length;
+
+  const reasons: string[] = [
+    ...d.oneSided.map(
+      (o) => `${rowName(o.row)} appears only in the ${o.side === "left" ? "reactants" : "products"}.`
+    ),
+    ...(d.isolated.length && d.isolated.length < total
+      ? [`${d.isolated.map(name).join(", ")} cannot be matched by the other species, so ${
+          d.isolated.length > 1 ? "their coefficients are" : "its coefficient is"
+        } forced to 0.`]
+      : []),
+    ...d.dependent.map(
+      (dep) =>
+        `${name(dep.species)} has the same composition as ${dep.from
+          .map((t) => `${t.coeff === "1" ? "" : `${t.coeff} `}${name(t.species)}`)
+          .join(" + ")} on the same side.`
+    ),
+    ...(d.inconsistentRows.length
+      ? [`The ${d.inconsistentRows.map(rowName).join(" / ")} balance is what rules out a solution.`]
+      : []),
+  ];
+
+  const suggestions = d.missing.map((m) => {
+    const extra = (side: "left" | "right") =>
+      m.add.filter((a) => a.side === side).map((a) => ({ formula: a.formula }));
+    const l = [...left, ...extra("left")];
+    const r = [...right, ...extra("right")];
+    return {
+      label: m.add.map((a) => `${a.formula} (${a.side === "left" ? "reactant" : "product"})`).join(" + "),
+      equation: formatEquation(
+        l.map((sp, i) => ({ ...sp, coeff: m.reaction.left[i] })),
+        r.map((sp, i) => ({ ...sp, coeff: m.reaction.right[i] }))
+      ),
+    };
+  });
+
+  if (!reasons.length && !suggestions.length) return null;
+
+  return (
+    <div className="p-4 border rounded-2xl bg-rose-50 border-rose-200 dark:bg-rose-950/50 dark:border-rose-900 text-sm">
+      <h3 className="font-medium mb-2">Why this doesn’t balance</h3>
+      {reasons.length > 0 && (
+        <ul className="list-disc pl-5 space-y-0.5 text-xs">
+          {reasons.map((r, i) => (
+            <li key={i}>{r}</li>
+          ))}
+        </ul>
+      )}
+      {suggestions.length > 0 && (
+        <div className="mt-3 text-xs">
+          <div className="mb-1 text-zinc-600 dark:text-zinc-400">Possibly missing species:</div>
+          <ul className="space-y-1">
+            {suggestions.map((s, i) => (
+              <li key={i} className="flex flex-wrap items-center gap-2">
+                <span>Add {s.label}:</span>
+                <span className="font-mono">{s.equation}</span>
+                <button
+                  onClick={() => onUse(s.equation)}
+                  className="px-2 py-0.5 rounded-lg border hover:bg-white dark:hover:bg-zinc-900"
+                >
+                  Use
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+// components/EmpiricalFormulaPanel.tsx
+import React, { useMemo, useState } from "react";
+import {
+  formulaFromCombustion,
+  formulaFromMasses,
+  formulaFromPercent,
+  FormulaError,
+  type ElementAmounts,
+} from "../lib/chem/empirical";
+
+type Mode = "percent" | "grams" | "combustion";
+type Row = { symbol: string; value: string };
+
+const inputClass =
+  "rounded-lg border px-2 py-0.5 font-mono bg-white dark:bg-zinc-900 dark:border-zinc-700";
+
+function fmt(x: number) {
+  return Number(x.toPrecision(4)).toString();
+}
+
+const num = (s: string) => (s.trim() ? parseFloat(s) : NaN);
+
+export default function EmpiricalFormulaPanel({ onUse }: { onUse: (formula: string) => void }) {
+  const [mode, setMode] = useState<Mode>("percent");
+  const [rows, setRows] = useState<Row[]>([
+    { symbol: "C", value: "" },
+    { symbol: "H", value: "" },
+    { symbol: "O", value: "" },
+  ]);
+  const [combustion, setCombustion] = useState({ sampleMass: "", co2Mass: "", h2oMass: "" });
+  const [molar, setMolar] = useState("");
+
+  const result = useMemo(() => {
+    const options = molar.trim() ? { molarMass: num(molar) } : {};
+    try {
+      if (mode === "combustion") {
+        const { sampleMass, co2Mass, h2oMass } = combustion;
+        if (![sampleMass, co2Mass, h2oMass].every((v) => v.trim())) return null;
+        return formulaFromCombustion(
+          { sampleMass: num(sampleMass), co2Mass: num(co2Mass), h2oMass: num(h2oMass) },
+          options
+        );
+      }
+      const filled = rows.filter((r) => r.symbol.trim() && r.value.trim());
+      if (!filled.length) return null;
+      const amounts: ElementAmounts = {};
+      for (const r of filled) amounts[r.symbol.trim()] = (amounts[r.symbol.trim()] || 0) + num(r.value);
+      return mode === "percent" ? formulaFromPercent(amounts, options) : formulaFromMasses(amounts, options);
+    } catch (e) {
+      if (e instanceof FormulaError) return { error: e.message };
+      throw e;
+    }
+  }, [mode, rows, combustion, molar]);
+
+  const ok = result && !("error" in result) ? result : null;
+  const best = ok ? ok.molecular?.formula ?? ok.formula : null;
+
+  return (
+    <details className="p-4 border rounded-2xl border-zinc-200 bg-white/80 dark:border-zinc-800 dark:bg-zinc-950/60">
+      <summary className="cursor-pointer font-medium">Formula from composition</summary>
+      <p className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">
+        Empirical formula from mass percentages, grams per element, or combustion analysis;
+        add a molar mass to get the molecular formula.
+      </p>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as Mode)}
+          className="rounded-lg border px-2 py-1 text-xs bg-white dark:bg-zinc-900 dark:border-zinc-700"
+        >
+          <option value="percent">Mass percent</option>
+          <option value="grams">Grams per element</option>
+          <option value="combustion">Combustion analysis (C, H, O)</option>
+        </select>
+        <label className="flex items-center gap-1 text-xs">
+          Molar mass
+          <input
+            inputMode="decimal"
+            value={molar}
+            placeholder="optional"
+            onChange={(e) => setMolar(e.target.value)}
+            className={`w-24 ${inputClass}`}
+          />
+          g/mol
+        </label>
+      </div>
+
+      {mode === "combustion" ? (
+        <div className="mt-3 grid gap-2 text-sm sm:grid-cols-3">
+          {(
+            [
+              ["sampleMass", "Sample (g)"],
+              ["co2Mass", "CO2 collected (g)"],
+              ["h2oMass", "H2O collected (g)"],
+            ] as const
+          ).map(([key, label]) => (
+            <label key={key} className="flex flex-col gap-1 text-xs">
+              {label}
+              <input
+                inputMode="decimal"
+                value={combustion[key]}
+                onChange={(e) => setCombustion((c) => ({ ...c, [key]: e.target.value }))}
+                className={inputClass}
+              />
+            </label>
+          ))}
+        </div>
+      ) : (
+        <div className="mt-3 grid gap-1 text-sm">
+          {rows.map((r, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <input
+                value={r.symbol}
+                aria-label="Element"
+                onChange={(e) => setRows((rs) => rs.map((x, k) => (k === i ? { ...x, symbol: e.target.value } : x)))}
+                className={`w-14 ${inputClass}`}
+              />
+              <input
+                inputMode="decimal"
+                value={r.value}
+                aria-label={mode === "percent" ? "Mass percent" : "Grams"}
+                onChange={(e) => setRows((rs) => rs.map((x, k) => (k === i ? { ...x, value: e.target.value } : x)))}
+                className={`w-24 ${inputClass}`}
+              />
+              <span className="text-xs text-zinc-500">{mode === "percent" ? "%" : "g"}</span>
+              {ok?.ratios[r.symbol.trim()] !== undefined && (
+                <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                  {fmt(ok.moles[r.symbol.trim()])} mol · ratio {fmt(ok.ratios[r.symbol.trim()])}
+                </span>
+              )}
+            </div>
+          ))}
+          <div>
+            <button
+              onClick={() => setRows((rs) => [...rs, { symbol: "", value: "" }])}
+              className="px-2 py-1 rounded-lg border text-xs hover:bg-zinc-50 dark:hover:bg-zinc-900"
+            >
+              + Element
+            </button>
+          </div>
+        </div>
+      )}
+
+      {ok && (
+        <div className="mt-3 grid gap-1 text-sm">
+          <div>
+            Empirical formula: <span className="font-mono">{ok.formula}</span>{" "}
+            <span className="text-xs text-zinc-500">({fmt(ok.formulaMass)} g/mol)</span>
+            {ok.multiplier > 1 && (
+              <span className="ml-2 text-xs text-zinc-500">ratios × {ok.multiplier}</span>
+            )}
+          </div>
+          {ok.molecular && (
+            <div>
+              Molecular formula: <span className="font-mono">{ok.molecular.formula}</span>{" "}
+              <span className="text-xs text-zinc-500">(empirical × {ok.molecular.factor})</span>
+            </div>
+          )}
+          <div>
+            <button
+              onClick={() => onUse(best!)}
+              className="mt-1 px-3 py-1.5 rounded-xl border text-xs bg-emerald-600 text-white hover:bg-emerald-700"
+            >
+              Add {best} to the equation
+            </button>
+          </div>
+        </div>
+      )}
+      {result && "error" in result && (
+        <p className="mt-2 text-xs text-rose-700 dark:text-rose-300">{result.error}</p>
+      )}
+    </details>
+  );
+}
@@ -5,14 +5,40 @@ import {
   splitEquation,
   parseSpecies,
   countElementsInFormula,
+  formulaCharge,
+  unknownElements,
   multiplyCounts,
   sumCounts,
   mergeElements,
+  formatEquation,
+  findArrows,
 } from "../lib/chem/parser";
 
 import { AnimatePresence } from "framer-motion";
 import { Motion, springy, fadeUp } from "./ui/Motion";
-import { analyzeBalanceability, solveEquation } from "../lib/chem/solver";
+import StoichiometryTable from "./StoichiometryTable";
+import EquilibriumPanel from "./EquilibriumPanel";
+import ThermoPanel from "./ThermoPanel";
+import TitrationPanel from "./TitrationPanel";
+import IonicPanel from "./IonicPanel";
+import PredictionPanel from "./PredictionPanel";
+import EmpiricalFormulaPanel from "./EmpiricalFormulaPanel";
+import RedoxPanel from "./RedoxPanel";
+import SolverWalkthrough from "./SolverWalkthrough";
+import BalanceDiagnosticsPanel from "./BalanceDiagnosticsPanel";
+import { parseEquation } from "../lib/chem/diagnostics";
+import { getElement } from "../lib/chem/elements";
+import { molarMass, percentComposition } from "../lib/chem/mass";
+import { analyzeOxidation, formatOxidationState } from "../lib/chem/oxidation";
+import { inspectionHint } from "../lib/chem/hints";
+import { classifyReaction, REACTION_TYPE_LABEL } from "../lib/chem/classify";
+import { predictionInput } from "../lib/chem/predict";
+import {
+  analyzeBalanceability,
+  combineReactions,
+  solveEquation,
+  solveWithPins,
+} from "../lib/chem/solver";
 
 // ---- Minimal types for state ----
 type SplitEq = { left: string[]; right: string[] } | null;
@@ -66,9 +92,25 @@ function Badge({
   );
 }
 
+// `value` once it has stopped changing for `ms` milliseconds.
+function useSettled<T>(value: T, ms: number): T {
+  const [settled, setSettled] = useState(value);
+  useEffect(() => {
+    const id = setTimeout(() => setSettled(value), ms);
+    return () => clearTimeout(id);
+  }, [value, ms]);
+  return settled;
+}
+
 const totalAtoms = (sum: Record<string, number>) =>
   Object.values(sum || {}).reduce((a, b) => a + b, 0);
 
+function elementTitle(symbol: string) {
+  const el = getElement(symbol);
+  if (!el) return `${symbol}: not a known element`;
+  return `${el.name} (Z = ${el.atomicNumber}, ${el.atomicWeight} g/mol)`;
+}
+
 function ElementSummary({ sum }: { sum: Record<string, number> }) {
   const entries = Object.entries(sum || {}).sort(([a], [b]) => a.localeCompare(b));
   if (!entries.length) return null;
@@ -77,6 +119,7 @@ function ElementSummary({ sum }: { sum: Record<string, number> }) {
       {entries.map(([el, n]) => (
         <div
           key={el}
+          title={elementTitle(el)}
           className="
   px-2 py-1 rounded-lg text-xs font-semibold
   bg-white text-zinc-900
@@ -95,10 +138,14 @@ function CoeffPill({
   value,
   onDec,
   onInc,
+  pinned = false,
+  onTogglePin,
 }: {
   value: number;
   onDec: () => void;
   onInc: () => void;
+  pinned?: boolean;
+  onTogglePin?: () => void;
 }) {
   return (
     <div className="relative flex items-center">
@@ -120,6 +167,21 @@ function CoeffPill({
         </button>
       </div>
 
+      {/* Pinned coefficients are kept when auto-solving */}
+      {onTogglePin && (
+        <button
+          aria-label={pinned ? "Unpin coefficient" : "Pin coefficient"}
+          aria-pressed={pinned}
+          onClick={onTogglePin}
+          title={pinned ? "Pinned — Auto solve keeps this value" : "Pin this coefficient"}
+          className={`mr-1 text-[10px] leading-none transition-opacity ${
+            pinned ? "opacity-100" : "opacity-0 group-hover:opacity-60 group-focus-within:opacity-60"
+          }`}
+        >
+          📌
+        </button>
+      )}
+
       {/* The number itself (no visible input) */}
       <Motion.span
         layout
@@ -129,7 +191,7 @@ function CoeffPill({
     text-[#3F88C5]
     dark:text-[#E0E0E0]
   "
-        title="Coefficient"
+        title={pinned ? "Pinned coefficient" : "Coefficient"}
       >
         {value}
       </Motion.span>
@@ -140,13 +202,25 @@ function CoeffPill({
 function SpeciesChip({
   side, // "left" | "right"
   name,
+  state,
   coeff,
   onChange,
+  mass,
+  oxidation,
+  roles = [],
+  pinned,
+  onTogglePin,
 }: {
   side: "left" | "right";
   name: string;
+  state?: string;
   coeff: number;
   onChange: (n: number) => void;
+  mass?: { molar: number; composition: string } | null;
+  oxidation?: Record<string, number> | null;
+  roles?: string[];
+  pinned?: boolean;
+  onTogglePin?: () => void;
 }) {
   const onKey = (e: React.KeyboardEvent) => {
     if (e.key === "ArrowUp") {
@@ -184,12 +258,208 @@ function SpeciesChip({
         value={coeff}
         onDec={() => onChange(Math.max(0, coeff - 1))}
         onInc={() => onChange(coeff + 1)}
+        pinned={pinned}
+        onTogglePin={onTogglePin}
       />
-      <div className="font-mono text-sm">{name}</div>
+      <div className="flex flex-col leading-tight">
+        <div className="font-mono text-sm">
+          {name}
+          {state && (
+            <span className="ml-0.5 text-xs text-zinc-500 dark:text-zinc-400">({state})</span>
+          )}
+        </div>
+        {mass && (
+          <div
+            className="text-[10px] text-zinc-500 dark:text-zinc-400"
+            title={mass.composition}
+          >
+            {mass.molar.toFixed(2)} g/mol
+          </div>
+        )}
+        {oxidation && Object.keys(oxidation).length > 0 && (
+          <div className="text-[10px] font-mono text-indigo-600 dark:text-indigo-300" title="Oxidation numbers">
+            {Object.entries(oxidation)
+              .map(([el, n]) => `${el} ${formatOxidationState(n)}`)
+              .join(" · ")}
+          </div>
+        )}
+        {roles.map((r) => (
+          <span
+            key={r}
+            className="mt-0.5 w-fit rounded-full border px-1.5 text-[10px] bg-indigo-50 text-indigo-700 border-indigo-200 dark:bg-indigo-950 dark:text-indigo-200 dark:border-indigo-800"
+          >
+            {r}
+          </span>
+        ))}
+      </div>
     </Motion.div>
   );
 }
 
+// Transparent mirror of the equation input that underlines diagnostic spans.
+function DiagnosticUnderlay({
+  text,
+  diagnostics,
+  mirrorRef,
+}: {
+  text: string;
+  diagnostics: Array<{ severity: "error" | "warning"; start: number; end: number }>;
+  mirrorRef: React.RefObject<HTMLDivElement>;
+}) {
+  // Per-character severity (errors win), then merged into runs.
+  const marks: Array<"error" | "warning" | null> = Array(text.length).fill(null);
+  for (const d of diagnostics) {
+    for (let i = d.start; i < Math.min(d.end, text.length); i++) {
+      if (marks[i] !== "error") marks[i] = d.severity;
+    }
+  }
+  const runs: Array<{ mark: "error" | "warning" | null; text: string }> = [];
+  for (let i = 0; i < text.length; i++) {
+    const last = runs[runs.length - 1];
+    if (last && last.mark === marks[i]) last.text += text[i];
+    else runs.push({ mark: marks[i], text: text[i] });
+  }
+
+  return (
+    <div
+      ref={mirrorRef}
+      aria-hidden
+      className="pointer-events-none absolute inset-0 overflow-hidden whitespace-pre
+        rounded-2xl border border-transparent px-4 py-3 text-base font-mono text-transparent"
+    >
+      {runs.map((r, i) =>
+        r.mark ? (
+          <span
+            key={i}
+            className={`underline decoration-wavy decoration-2 underline-offset-4 ${
+              r.mark === "error" ? "decoration-rose-500" : "decoration-amber-500"
+            }`}
+          >
+            {r.text}
+          </span>
+        ) : (
+          <span key={i}>{r.text}</span>
+        )
+      )}
+    </div>
+  );
+}
+
+// Render a signed reaction vector; negative entries swap sides.
+function formatReaction(
+  vec: { left: number[]; right: number[] },
+  leftNames: string[],
+  rightNames: string[]
+) {
+  const lhs: string[] = [];
+  const rhs: string[] = [];
+  const term = (k: number, name: string) => `${Math.abs(k) === 1 ? "" : Math.abs(k)}${name}`;
+  vec.left.forEach((k, i) => {
+    if (k > 0) lhs.push(term(k, leftNames[i]));
+    if (k < 0) rhs.push(term(k, leftNames[i]));
+  });
+  vec.right.forEach((k, i) => {
+    if (k > 0) rhs.push(term(k, rightNames[i]));
+    if (k < 0) lhs.push(term(k, rightNames[i]));
+  });
+  return `${lhs.join(" + ")} → ${rhs.join(" + ")}`;
+}
+
+function ReactionBasisPanel({
+  basis,
+  leftNames,
+  rightNames,
+  onApply,
+}: {
+  basis: Array<{ left: number[]; right: number[] }>;
+  leftNames: string[];
+  rightNames: string[];
+  onApply: (c: Coeffs) => void;
+}) {
+  const [weights, setWeights] = useState<number[]>(() => basis.map(() => 1));
+  const [message, setMessage] = useState<string | null>(null);
+
+  const key = `${leftNames.join("|")}->${rightNames.join("|")}:${JSON.stringify(basis)}`;
+  useEffect(() => {
+    setWeights(basis.map(() => 1));
+    setMessage(null);
+  }, [key]);
+
+  const leftLen = leftNames.length;
+  const apply = (w: number[]) => {
+    const vec = combineReactions(
+      basis.map((b) => [...b.left, ...b.right]),
+      w
+    );
+    if (!vec) {
+      setMessage("That mix needs coefficients too large to compute exactly.");
+    } else if (vec.every((v) => v > 0)) {
+      setMessage(null);
+      onApply({ left: vec.slice(0, leftLen), right: vec.slice(leftLen) });
+    } else {
+      setMessage(
+        `That mix gives ${formatReaction(
+          { left: vec.slice(0, leftLen), right: vec.slice(leftLen) },
+          leftNames,
+          rightNames
+        )} — some species end up with a zero or reversed coefficient.`
+      );
+    }
+  };
+
+  return (
+    <div className="p-4 border rounded-2xl bg-sky-50 border-sky-200 dark:bg-sky-950/60 dark:border-sky-900">
+      <h3 className="font-medium mb-1">Several reactions in one</h3>
+      <p className="text-sm text-zinc-600 dark:text-zinc-400 mb-3">
+        This equation is a combination of {basis.length} independent reactions.
+        Any balanced answer is a mix of them — pick one or choose how many of each.
+      </p>
+      <ul className="space-y-2">
+        {basis.map((b, i) => (
+          <li key={i} className="flex flex-wrap items-center gap-2 text-sm">
+            <input
+              type="number"
+              min={0}
+              value={weights[i] ?? 0}
+              onChange={(e) =>
+                setWeights((w) =>
+                  w.map((x, j) => (j === i ? Math.max(0, parseIntOr(e.target.value, 0)) : x))
+                )
+              }
+              className="w-14 rounded-lg border px-2 py-0.5 font-mono bg-white dark:bg-zinc-900"
+              aria-label={`Multiplier for reaction ${i + 1}`}
+            />
+            <span className="font-mono">{formatReaction(b, leftNames, rightNames)}</span>
+            <button
+              onClick={() => apply(basis.map((_, j) => (j === i ? 1 : 0)))}
+              className="px-2 py-0.5 rounded-lg border text-xs hover:bg-white dark:hover:bg-zinc-900"
+            >
+              Use
+            </button>
+          </li>
+        ))}
+      </ul>
+      <button
+        onClick={() => apply(weights)}
+        className="mt-3 px-3 py-1.5 rounded-xl border text-xs hover:bg-white dark:hover:bg-zinc-900"
+      >
+        Apply combination
+      </button>
+      {message && (
+        <p className="mt-2 text-xs text-rose-700 dark:text-rose-300">{message}</p>
+      )}
+    </div>
+  );
+}
+
+// How each arrow kind is drawn between the chips.
+const ARROW_GLYPHS = {
+  forward: "→",
+  reverse: "←",
+  equilibrium: "⇌",
+  resonance: "↔",
+};
+
 // ---- Main component ----
 export default function EquationBalancerPlayground() {
   const examples = [
@@ -198,13 +468,21 @@ export default function EquationBalancerPlayground() {
     "Na3PO4 + CaCl2 -> Ca3(PO4)2 + NaCl",
     "KMnO4 + HCl -> KCl + MnCl2 + H2O + Cl2",
     "CuSO4·5H2O -> CuSO4 + H2O",
+    "MnO4^- + Fe^2+ + H^+ -> Mn^2+ + Fe^3+ + H2O",
+    "AgNO3(aq) + NaCl(aq) -> AgCl↓ + NaNO3(aq)",
+    "Cr2O7^2- + I^- -> Cr^3+ + I2",
+    "N2(g) + H2(g) ⇌ NH3(g)",
+    "KClO3 ->[MnO2, Δ] KCl + O2",
+    "Zn + CuSO4 ->",
   ];
 
   const [eqn, setEqn] = useState<string>(examples[0]);
   const [parsed, setParsed] = useState<SplitEq>(splitEquation(eqn));
   const [hintUsed, setHintUsed] = useState(false);
   const [hintText, setHintText] = useState<string | null>(null);
+  const [hintLevel, setHintLevel] = useState(0);
   const inputRef = useRef<HTMLInputElement>(null);
+  const mirrorRef = useRef<HTMLDivElement>(null);
 
   function insertAtCursor(text: string) {
     const el = inputRef.current;
@@ -224,10 +502,16 @@ export default function EquationBalancerPlayground() {
   }
 
   function normalizeSpaces(s: string) {
+    // Only separator pluses get padded; charge signs like "Fe^2+" or "Na+" stay glued.
     return s
       .replace(/\s+/g, " ")
-      .replace(/\s*\+\s*/g, " + ")
-      .replace(/\s*-\s*>\s*/g, " -> ")
+      .replace(/\s\+\s*/g, " + ")
+      .replace(/([^\s^+])\+(?=[A-Z0-9\[]|\([A-Z0-9(\[])/g, "$1 + ")
+      // Pads whole arrows, keeping "<->", "-Δ->" and "->[Pt]" in one piece.
+      .replace(
+        /\s*(<?)(-(?:[^\s\-\[\]<>=+]+-)?)\s*>(\[[^\]]*\])?\s*/g,
+        (_, lt, shaft, cond) => ` ${lt}${shaft}>${cond ?? ""} `
+      )
       .trim();
   }
 
@@ -241,10 +525,11 @@ export default function EquationBalancerPlayground() {
   }
 
   function insertArrow() {
-    if (eqn.includes("->")) {
+    const existing = findArrows(eqn)[0];
+    if (existing) {
       const el = inputRef.current;
       if (!el) return;
-      const idx = eqn.indexOf("->") + 2;
+      const idx = existing.end;
       requestAnimationFrame(() => {
         el.setSelectionRange(idx + 1, idx + 1);
         el.focus();
@@ -254,8 +539,21 @@ export default function EquationBalancerPlayground() {
     insertAtCursor(" -> ");
   }
 
+  // Adds a species at the caret (or the end), with "+" separators as needed.
+  function addSpecies(formula: string) {
+    const caret = inputRef.current?.selectionStart ?? eqn.length;
+    const left = eqn.slice(0, caret).trimEnd();
+    const right = eqn.slice(caret).trimStart();
+    const before = !left || /[+>⇌→↔←]$/.test(left) ? "" : " +";
+    const after = !right || /^[+\-<=⇌→↔←]/.test(right) ? "" : " +";
+    setEqn(normalizeSpaces(`${left}${before} ${formula}${after} ${right}`));
+  }
+
   function onEqnKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
     if (e.key === " ") {
+      // Spaces inside reaction conditions ("->[Fe, 450 °C]") are literal.
+      const caret = e.currentTarget.selectionStart ?? eqn.length;
+      if (/>\[[^\]]*$/.test(eqn.slice(0, caret))) return;
       e.preventDefault();
       insertPlusSmart();
     }
@@ -281,11 +579,31 @@ export default function EquationBalancerPlayground() {
   // Re-parse when equation changes
   useEffect(() => setParsed(splitEquation(eqn)), [eqn]);
 
+  const parsedEquation = useMemo(() => parseEquation(eqn), [eqn]);
+  const diagnostics = parsedEquation.diagnostics;
+  const arrow = parsedEquation.arrow;
+  // Arrow problems get the banner below; everything else is listed under the input.
+  const isArrowProblem = (d) => d.code === "missing-arrow" || d.code === "multiple-arrows";
+  const arrowProblem = diagnostics.find(isArrowProblem);
+  const formulaProblems = diagnostics.filter((d) => !isArrowProblem(d));
+  const predictionReactants = useMemo(() => predictionInput(parsedEquation), [parsedEquation]);
+
+  // Coefficients the user pinned; Auto solve fills in only the others.
+  const noPins = (c: Coeffs) => ({ left: c.left.map(() => false), right: c.right.map(() => false) });
+  const [pins, setPins] = useState(() => noPins(initCoeffs));
+  const [pinNote, setPinNote] = useState<string | null>(null);
+
   // Reset coeff arrays if species count changes
   useEffect(() => {
     setCoeffs(initCoeffs);
+    setPins(noPins(initCoeffs));
   }, [initCoeffs.left.length, initCoeffs.right.length]);
 
+  useEffect(() => setPinNote(null), [coeffs, pins]);
+
+  const togglePin = (side: "left" | "right", i: number) =>
+    setPins((p) => ({ ...p, [side]: p[side].map((v, j) => (j === i ? !v : v)) }));
+
   // Species list with inline coeff/formula
   const species = useMemo(() => {
     if (!parsed) return null;
@@ -295,12 +613,73 @@ export default function EquationBalancerPlayground() {
     };
   }, [parsed]);
 
+  // Stable per-side formula and state lists for the panels that memoize on them
+  const speciesFormulas = useMemo(
+    () => species && { left: species.left.map((sp) => sp.formula), right: species.right.map((sp) => sp.formula) },
+    [species]
+  );
+  const speciesStates = useMemo(
+    () => species && { left: species.left.map((sp) => sp.state), right: species.right.map((sp) => sp.state) },
+    [species]
+  );
+
+  const unknownSymbols = useMemo(() => {
+    if (!species) return [];
+    const all = [...species.left, ...species.right].flatMap((sp) =>
+      unknownElements(sp.formula)
+    );
+    return Array.from(new Set(all));
+  }, [species]);
+
+  // Molar mass + percent composition per formula (null when it can't be weighed).
+  const masses = useMemo(() => {
+    const out: Record<string, { molar: number; composition: string } | null> = {};
+    if (!species) return out;
+    for (const sp of [...species.left, ...species.right]) {
+      try {
+        const molar = molarMass(sp.formula);
+        out[sp.formula] = molar
+          ? {
+              molar,
+              composition: percentComposition(sp.formula, { precision: 2 })
+                .map((c) => `${c.element} ${c.percent}%`)
+                .join(" · "),
+            }
+          : null;
+      } catch {
+        out[sp.formula] = null;
+      }
+    }
+    return out;
+  }, [species]);
+
+  // The null-space search is too slow for every keystroke; wait for a pause.
+  const formulaKey = JSON.stringify(speciesFormulas);
+  const settledFormulaKey = useSettled(formulaKey, 250);
+
   const balanceability = useMemo(() => {
-    if (!species) return null;
+    if (!species || unknownSymbols.length || settledFormulaKey !== formulaKey) return null;
     const left = species.left.map((s) => s.formula);
     const right = species.right.map((s) => s.formula);
-    return analyzeBalanceability(left, right, countElementsInFormula);
-  }, [species]);
+    return analyzeBalanceability(left, right, countElementsInFormula, formulaCharge);
+  }, [species, unknownSymbols, settledFormulaKey, formulaKey]);
+
+  // Oxidation numbers per chip plus oxidizing / reducing agents
+  const oxidation = useMemo(() => {
+    if (!species || unknownSymbols.length) return null;
+    return analyzeOxidation(
+      species.left.map((s) => s.formula),
+      species.right.map((s) => s.formula)
+    );
+  }, [species, unknownSymbols]);
+
+  const agentRoles = (idx: number) =>
+    oxidation
+      ? [
+          ...(oxidation.oxidizingAgents.includes(idx) ? ["oxidizing agent"] : []),
+          ...(oxidation.reducingAgents.includes(idx) ? ["reducing agent"] : []),
+        ]
+      : [];
 
   // Compute counts, sums, diffs, balanced flag
   const counts = useMemo(() => {
@@ -326,18 +705,48 @@ export default function EquationBalancerPlayground() {
         (leftSum[el] || 0) - (rightSum[el] || 0),
       ])
     );
+    const leftCharge = species.left.reduce(
+      (q, sp, idx) => q + sp.charge * (coeffs.left[idx] ?? sp.coeff),
+      0
+    );
+    const rightCharge = species.right.reduce(
+      (q, sp, idx) => q + sp.charge * (coeffs.right[idx] ?? sp.coeff),
+      0
+    );
+    const charged = [...species.left, ...species.right].some((sp) => sp.charge !== 0);
     const balanced =
-      Object.values(diff).every((d) => d === 0) && elements.length > 0;
-    return { leftCounts, rightCounts, leftSum, rightSum, diff, elements, balanced };
+      Object.values(diff).every((d) => d === 0) &&
+      leftCharge === rightCharge &&
+      elements.length > 0;
+    return {
+      leftCounts,
+      rightCounts,
+      leftSum,
+      rightSum,
+      diff,
+      elements,
+      charged,
+      leftCharge,
+      rightCharge,
+      balanced,
+    };
   }, [species, coeffs]);
 
-  function generateHint() {
-    if (!counts) return "Enter an equation first.";
-    const unbalanced = counts.elements.filter((el) => counts.diff[el] !== 0);
-    if (unbalanced.length === 0) return "Already balanced ✔";
+  // Each click on "Get hint" reveals more (element → species → coefficient)
+  // until the coefficients change.
+  useEffect(() => setHintLevel(0), [coeffs, species]);
 
-    const el = unbalanced[0];
-    return `Focus on balancing ${el} first.`;
+  function generateHint(level: 1 | 2 | 3) {
+    if (!species || !counts) return "Enter an equation first.";
+    return inspectionHint(
+      species.left.map((sp) => sp.formula),
+      species.right.map((sp) => sp.formula),
+      {
+        left: species.left.map((sp, i) => coeffs.left[i] ?? sp.coeff),
+        right: species.right.map((sp, i) => coeffs.right[i] ?? sp.coeff),
+      },
+      level
+    ).text;
   }
 
   // Handlers
@@ -352,16 +761,69 @@ export default function EquationBalancerPlayground() {
       right: c.right.map((x, j) => (j === i ? v : x)),
     }));
 
-  const resetCoeffs = () => setCoeffs(initCoeffs);
+  const resetCoeffs = () => {
+    setCoeffs(initCoeffs);
+    setPins(noPins(initCoeffs));
+  };
+
+  // Export the current equation with coefficients and state labels.
+  const [copied, setCopied] = useState(false);
+  const copyEquation = () => {
+    if (!species) return;
+    const text = formatEquation(
+      species.left.map((sp, i) => ({ ...sp, coeff: coeffs.left[i] ?? sp.coeff })),
+      species.right.map((sp, i) => ({ ...sp, coeff: coeffs.right[i] ?? sp.coeff })),
+      arrow ?? undefined
+    );
+    navigator.clipboard?.writeText(text).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    });
+  };
   const randomExample = () => {
     const idx = Math.floor(Math.random() * examples.length);
     setEqn(examples[idx]);
   };
 
-  const qualityTag = counts?.balanced ? (
+  // Why the equation can't be balanced as written, in the user's species names.
+  const fixNote = useMemo(() => {
+    const fixes = balanceability?.fixes;
+    if (!species || !fixes) return null;
+    const nameOf = (ref) => species[ref.side][ref.index].formula;
+    const names = (fix) => fix.species.map(nameOf).join(", ");
+    const leftNames = species.left.map((sp) => sp.formula);
+    const rightNames = species.right.map((sp) => sp.formula);
+    if (fixes.move) {
+      return {
+        badge: `Balanceable if ${names(fixes.move)} moves to the other side`,
+        reaction: formatReaction(fixes.move.reaction, leftNames, rightNames),
+      };
+    }
+    if (fixes.drop) {
+      return {
+        badge: `Balanceable only without ${names(fixes.drop)}`,
+        reaction: formatReaction(fixes.drop.reaction, leftNames, rightNames),
+      };
+    }
+    return null;
+  }, [balanceability, species]);
+
+  // Reaction type(s) of a balanced equation, with the reasoning behind each.
+  const reactionClass = useMemo(() => {
+    if (!parsed || !counts?.balanced || unknownSymbols.length) return null;
+    const r = classifyReaction(parsed.left, parsed.right);
+    return r.types.length ? r : null;
+  }, [parsed, counts?.balanced, unknownSymbols.length]);
+  const [showTypeWhy, setShowTypeWhy] = useState(false);
+
+  const qualityTag = unknownSymbols.length ? (
+    <Badge variant="bad">Unknown element: {unknownSymbols.join(", ")}</Badge>
+  ) : counts?.balanced ? (
     <Badge variant="good">Balanced ✔</Badge>
   ) : balanceability?.balanceableAllSpecies === false ? (
-    <Badge variant="bad">Not balanceable with all species present</Badge>
+    <Badge variant="bad">
+      {fixNote ? fixNote.badge : "No combination of these species balances"}
+    </Badge>
   ) : counts ? (
     <Badge variant="warn">Unbalanced</Badge>
   ) : (
@@ -374,16 +836,22 @@ export default function EquationBalancerPlayground() {
       <section className="grid gap-3 mb-6">
         <label className="text-sm font-medium">Equation</label>
         <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
-          <input
-            ref={inputRef}
-            value={eqn}
-            onChange={(e) => setEqn(normalizeSpaces(e.target.value))}
-            onKeyDown={onEqnKeyDown}
-            placeholder="e.g., C3H8 + O2 -> CO2 + H2O"
-            className="flex-1 rounded-2xl px-4 py-3 text-base font-mono
-              border border-zinc-200 bg-white text-zinc-900 placeholder-zinc-400
-              dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-100 dark:placeholder-zinc-500"
-          />
+          <div className="relative flex-1">
+            <input
+              ref={inputRef}
+              value={eqn}
+              onChange={(e) => setEqn(normalizeSpaces(e.target.value))}
+              onKeyDown={onEqnKeyDown}
+              onScroll={(e) => {
+                if (mirrorRef.current) mirrorRef.current.scrollLeft = e.currentTarget.scrollLeft;
+              }}
+              placeholder="e.g., C3H8 + O2 -> CO2 + H2O"
+              className="w-full rounded-2xl px-4 py-3 text-base font-mono
+                border border-zinc-200 bg-white text-zinc-900 placeholder-zinc-400
+                dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-100 dark:placeholder-zinc-500"
+            />
+            <DiagnosticUnderlay text={eqn} diagnostics={diagnostics} mirrorRef={mirrorRef} />
+          </div>
           <div className="flex gap-2">
             <button
               onClick={resetCoeffs}
@@ -406,9 +874,32 @@ export default function EquationBalancerPlayground() {
             </button>
           </div>
         </div>
+        {formulaProblems.length > 0 && (
+          <ul className="text-xs space-y-0.5">
+            {formulaProblems.map((d, i) => (
+              <li
+                key={i}
+                className={
+                  d.severity === "error"
+                    ? "text-rose-700 dark:text-rose-300"
+                    : "text-amber-700 dark:text-amber-300"
+                }
+              >
+                {d.severity === "error" ? "✖" : "⚠"} {d.message}
+                <span className="ml-1 font-mono text-zinc-500">
+                  “{eqn.slice(d.start, d.end)}”
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
         <p className="text-xs text-zinc-500 dark:text-zinc-400">
           Tip: You can include coefficients directly (e.g., "2H2 + O2 -&gt; 2H2O").
-          Use parentheses and hydrates like "Ca3(PO4)2" or "CuSO4·5H2O". Press
+          Use parentheses and hydrates like "Ca3(PO4)2" or "CuSO4·5H2O", and
+          charges like "Fe^3+", "SO4^2-", "[Fe(CN)6]4-" or "e-" for electrons, and
+          states like "NaCl(aq)", "H2O(l)" or "AgCl↓". Write "&lt;=&gt;" (or ⇌) for an
+          equilibrium and put conditions on the arrow with "-&gt;[Pt, 500 °C]" or
+          "-Δ-&gt;". Press
           <span className="mx-1 rounded border px-1 py-0.5 bg-zinc-100 dark:bg-zinc-900">
             Space
           </span>
@@ -418,26 +909,47 @@ export default function EquationBalancerPlayground() {
         {/* Status + Hint / Auto-solve row */}
         <div className="mt-1 flex flex-wrap items-center gap-3">
           {qualityTag}
+          {reactionClass && (
+            <button
+              onClick={() => setShowTypeWhy((v) => !v)}
+              title="Why this reaction type?"
+              aria-expanded={showTypeWhy}
+            >
+              <Badge>{reactionClass.types.map((t) => REACTION_TYPE_LABEL[t]).join(" · ")}</Badge>
+            </button>
+          )}
+          {balanceability && balanceability.nullity > 1 && (
+            <Badge>{balanceability.nullity} independent reactions</Badge>
+          )}
 
           <button
             onClick={() => {
+              const level = Math.min(hintLevel + 1, 3);
               setHintUsed(true);
-              setHintText(generateHint());
+              setHintLevel(level);
+              setHintText(generateHint(level));
             }}
             className="px-3 py-1.5 rounded-xl border text-xs hover:bg-zinc-50 dark:hover:bg-zinc-900"
           >
-            Get hint
+            {hintLevel > 0 && hintLevel < 3 ? "More detail" : "Get hint"}
           </button>
 
           {hintUsed && (
             <button
               onClick={() => {
-                if (parsed) {
-                  const solution = solveEquation(
-                    parsed.left.map((s) => parseSpecies(s).formula),
-                    parsed.right.map((s) => parseSpecies(s).formula),
-                    countElementsInFormula
-                  );
+                if (parsed && !unknownSymbols.length) {
+                  const left = parsed.left.map((s) => parseSpecies(s).formula);
+                  const right = parsed.right.map((s) => parseSpecies(s).formula);
+                  if ([...pins.left, ...pins.right].some(Boolean)) {
+                    const result = solveWithPins(left, right, countElementsInFormula, {
+                      left: pins.left.map((p, i) => (p ? coeffs.left[i] : null)),
+                      right: pins.right.map((p, i) => (p ? coeffs.right[i] : null)),
+                    }, formulaCharge);
+                    if (result.ok) setCoeffs(result.coefficients);
+                    else setPinNote(result.message);
+                    return;
+                  }
+                  const solution = solveEquation(left, right, countElementsInFormula, formulaCharge);
                   if (solution) setCoeffs(solution);
                 }
               }}
@@ -448,17 +960,50 @@ export default function EquationBalancerPlayground() {
           )}
         </div>
 
+        {pinNote && (
+          <div className="text-xs text-rose-700 dark:text-rose-300">📌 {pinNote}</div>
+        )}
+
+        {fixNote && !counts?.balanced && (
+          <div className="text-xs text-zinc-600 dark:text-zinc-400">
+            Closest balanced reaction:{" "}
+            <span className="font-mono">{fixNote.reaction}</span>
+          </div>
+        )}
+
         {hintText && (
           <div className="mt-2 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-xl px-3 py-2 dark:text-amber-100 dark:bg-amber-900/60 dark:border-amber-800">
             💡 {hintText}
           </div>
         )}
+        {reactionClass && showTypeWhy && (
+          <ul className="mt-2 text-sm space-y-1 border rounded-xl px-3 py-2 bg-zinc-50 dark:bg-zinc-900/70 dark:border-zinc-800">
+            {reactionClass.reasons.map((r) => (
+              <li key={r.type}>
+                <span className="font-medium">{REACTION_TYPE_LABEL[r.type]}:</span> {r.text}
+              </li>
+            ))}
+          </ul>
+        )}
       </section>
 
+      {/* Empirical / molecular formula from analysis data */}
+      <div className="mb-4">
+        <EmpiricalFormulaPanel onUse={addSpecies} />
+      </div>
+
       {/* Arrow missing message */}
       {!parsed && (
         <div className="p-3 border rounded-xl bg-rose-50 text-rose-800 dark:bg-rose-900/60 dark:text-rose-100 mb-4">
-          Could not find an arrow (-&gt;). Use the form: Reactants -&gt; Products
+          {arrowProblem?.message ??
+            "Could not find an arrow (->). Use the form: Reactants -> Products"}
+        </div>
+      )}
+
+      {/* Reactants only ("C3H8 + O2 ->"): offer predicted products */}
+      {predictionReactants && !unknownSymbols.length && (
+        <div className="mb-4">
+          <PredictionPanel left={predictionReactants} onUse={setEqn} />
         </div>
       )}
 
@@ -467,8 +1012,17 @@ export default function EquationBalancerPlayground() {
         <section className="grid grid-cols-1 gap-6">
           {/* Chip equation view (always on now) */}
           <div className="mt-2 rounded-2xl border border-zinc-200 bg-gradient-to-br from-white to-zinc-50 dark:from-zinc-950 dark:to-zinc-900 p-3 flex flex-col items-center">
-            <div className="text-xs text-zinc-500 dark:text-zinc-400 mb-2">
+            <div className="w-full flex items-center justify-center gap-2 text-xs text-zinc-500 dark:text-zinc-400 mb-2">
               Equation
+              {counts?.balanced && (
+                <button
+                  onClick={copyEquation}
+                  className="px-2 py-0.5 rounded-lg border text-xs hover:bg-white dark:hover:bg-zinc-900"
+                  title="Copy the balanced equation with states"
+                >
+                  {copied ? "Copied ✔" : "Copy"}
+                </button>
+              )}
             </div>
 
             <Motion.div
@@ -482,20 +1036,32 @@ export default function EquationBalancerPlayground() {
                     key={`L-${sp.formula}-${idx}`}
                     side="left"
                     name={sp.formula}
+                    state={sp.state}
                     coeff={coeffs.left[idx] ?? sp.coeff}
                     onChange={(n) => setLeftCoeff(idx, n)}
+                    pinned={pins.left[idx]}
+                    onTogglePin={() => togglePin("left", idx)}
+                    mass={masses[sp.formula]}
+                    oxidation={oxidation?.left[idx]}
+                    roles={agentRoles(idx)}
                   />
                 ))}
               </AnimatePresence>
 
               <Motion.span
                 layout
-                className="mx-2 text-zinc-500 select-none"
+                className="mx-2 text-zinc-500 select-none inline-flex flex-col items-center leading-none"
                 initial={{ opacity: 0, scale: 0.9 }}
                 animate={{ opacity: 1, scale: 1 }}
                 transition={springy}
+                title={arrow ? `${arrow.kind} arrow` : undefined}
               >
-                →
+                {arrow?.conditions.length > 0 && (
+                  <span className="text-[10px] text-zinc-500 dark:text-zinc-400 whitespace-nowrap">
+                    {arrow.conditions.join(", ")}
+                  </span>
+                )}
+                <span>{ARROW_GLYPHS[arrow?.kind ?? "forward"]}</span>
               </Motion.span>
 
               <AnimatePresence initial={false}>
@@ -504,14 +1070,70 @@ export default function EquationBalancerPlayground() {
                     key={`R-${sp.formula}-${idx}`}
                     side="right"
                     name={sp.formula}
+                    state={sp.state}
                     coeff={coeffs.right[idx] ?? sp.coeff}
                     onChange={(n) => setRightCoeff(idx, n)}
+                    pinned={pins.right[idx]}
+                    onTogglePin={() => togglePin("right", idx)}
+                    mass={masses[sp.formula]}
+                    oxidation={oxidation?.right[idx]}
                   />
                 ))}
               </AnimatePresence>
             </Motion.div>
           </div>
 
+          {/* Oxidation number changes */}
+          {oxidation?.isRedox && (
+            <div className="flex flex-wrap gap-2 text-xs">
+              {oxidation.changes.map((c, i) => (
+                <span
+                  key={i}
+                  className={`font-mono px-2 py-1 rounded-lg border ${
+                    c.kind === "oxidized"
+                      ? "bg-amber-50 border-amber-200 dark:bg-amber-950 dark:border-amber-800"
+                      : "bg-sky-50 border-sky-200 dark:bg-sky-950 dark:border-sky-800"
+                  }`}
+                >
+                  {c.element}: {formatOxidationState(c.from.state)} ({c.from.formula}) →{" "}
+                  {formatOxidationState(c.to.state)} ({c.to.formula}), {c.kind}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {/* Multi-solution equations */}
+          {balanceability && balanceability.basis.length > 1 && (
+            <ReactionBasisPanel
+              basis={balanceability.basis}
+              leftNames={species.left.map((sp) => sp.formula)}
+              rightNames={species.right.map((sp) => sp.formula)}
+              onApply={setCoeffs}
+            />
+          )}
+
+          {/* Worked matrix solution behind "Auto solve" */}
+          {balanceability && (
+            <SolverWalkthrough
+              left={species.left.map((sp) => sp.formula)}
+              right={species.right.map((sp) => sp.formula)}
+            />
+          )}
+
+          {/* Reasons an equation cannot be balanced, and likely missing species */}
+          {balanceability && !balanceability.balanceableAllSpecies && (
+            <BalanceDiagnosticsPanel left={species.left} right={species.right} onUse={setEqn} />
+          )}
+
+          {/* Ion-electron method whenever an oxidation number changes */}
+          {balanceability && (counts?.charged || !balanceability.balanceableAllSpecies || oxidation?.isRedox) && (
+            <RedoxPanel
+              left={species.left.map((sp) => sp.formula)}
+              right={species.right.map((sp) => sp.formula)}
+              onUse={setEqn}
+            />
+          )}
+
           {/* Reactants / Products cards — sums only */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {/* Reactants (Left) */}
@@ -598,18 +1220,66 @@ export default function EquationBalancerPlayground() {
                         : "bg-rose-50 dark:bg-rose-900/60";
                     return (
                       <tr key={el} className={`${rowClass} border-b last:border-0`}>
-                        <td className="py-1.5 pr-4 font-medium">{el}</td>
+                        <td className="py-1.5 pr-4 font-medium" title={elementTitle(el)}>
+                          {el}
+                        </td>
                         <td className="py-1.5 pr-4">{L}</td>
                         <td className="py-1.5 pr-4">{R}</td>
                         <td className="py-1.5 pr-4 font-mono">{D}</td>
                       </tr>
                     );
                   })}
+                  {counts.charged && (
+                    <tr
+                      className={`${
+                        counts.leftCharge === counts.rightCharge
+                          ? "bg-emerald-50 dark:bg-emerald-900/60"
+                          : "bg-amber-50 dark:bg-amber-900/60"
+                      } border-b last:border-0`}
+                    >
+                      <td className="py-1.5 pr-4 font-medium">Charge</td>
+                      <td className="py-1.5 pr-4">{counts.leftCharge}</td>
+                      <td className="py-1.5 pr-4">{counts.rightCharge}</td>
+                      <td className="py-1.5 pr-4 font-mono">
+                        {counts.leftCharge - counts.rightCharge}
+                      </td>
+                    </tr>
+                  )}
                 </tbody>
               </table>
             </div>
           )}
 
+          {/* Stoichiometry (needs balanced coefficients) */}
+          {counts?.balanced && !unknownSymbols.length && (
+            <StoichiometryTable
+              left={speciesFormulas.left}
+              right={speciesFormulas.right}
+              coeffs={coeffs}
+              states={speciesStates}
+            />
+          )}
+
+          {/* Titrant/analyte from the balanced coefficients */}
+          {counts?.balanced && !unknownSymbols.length && species.left.length > 1 && (
+            <TitrationPanel left={species.left} coeffs={coeffs} />
+          )}
+
+          {/* Complete and net ionic forms (solubility rules, spectator ions) */}
+          {counts?.balanced && !unknownSymbols.length && (
+            <IonicPanel left={species.left} right={species.right} coeffs={coeffs} onUse={setEqn} />
+          )}
+
+          {/* ΔH°, ΔS° and ΔG° from the built-in formation data */}
+          {counts?.balanced && !unknownSymbols.length && (
+            <ThermoPanel left={species.left} right={species.right} coeffs={coeffs} />
+          )}
+
+          {/* Kc/Kp expression and ICE table for equilibrium arrows */}
+          {counts?.balanced && arrow?.kind === "equilibrium" && (
+            <EquilibriumPanel left={species.left} right={species.right} coeffs={coeffs} />
+          )}
+
           {/* Coaching block */}
           {counts && !counts.balanced && (
             <div className="p-4 border rounded-2xl bg-zinc-50 dark:bg-zinc-900/70 dark:border-zinc-800">
@@ -0,0 +1,211 @@
+// components/EquilibriumPanel.tsx
+import React, { useEffect, useMemo, useState } from "react";
+import type { Species } from "../lib/chem/parser";
+import {
+  equilibriumExpression,
+  EquilibriumError,
+  solveIce,
+  type ExpressionTerm,
+  type KType,
+} from "../lib/chem/equilibrium";
+
+function fmt(x: number) {
+  if (x === 0) return "0";
+  const a = Math.abs(x);
+  return a >= 1e5 || a < 1e-3 ? x.toExponential(3) : Number(x.toPrecision(4)).toString();
+}
+
+function Terms({ terms, type }: { terms: ExpressionTerm[]; type: KType }) {
+  if (!terms.length) return <span>1</span>;
+  return (
+    <span>
+      {terms.map((t, i) => (
+        <span key={i}>
+          {type === "Kc" ? `[${t.formula}]` : `P(${t.formula})`}
+          {t.power !== 1 && <sup>{t.power}</sup>}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+// "−3x", "+2x", "+x"
+function changeText(nu: number) {
+  const sign = nu < 0 ? "−" : "+";
+  return `${sign}${Math.abs(nu) === 1 ? "" : Math.abs(nu)}x`;
+}
+
+export default function EquilibriumPanel({
+  left,
+  right,
+  coeffs,
+}: {
+  left: Species[];
+  right: Species[];
+  coeffs: { left: number[]; right: number[] };
+}) {
+  const [type, setType] = useState<KType>("Kc");
+  const [K, setK] = useState("");
+  const [initial, setInitial] = useState<{ left: string[]; right: string[] }>(() => ({
+    left: left.map(() => ""),
+    right: right.map(() => ""),
+  }));
+
+  const key = `${left.map((s) => s.formula).join("|")}->${right.map((s) => s.formula).join("|")}`;
+  useEffect(() => {
+    setInitial({ left: left.map(() => ""), right: right.map(() => "") });
+    setK("");
+  }, [key]);
+
+  const reactants = left.map((s, i) => ({ formula: s.formula, coeff: coeffs.left[i], state: s.state }));
+  const products = right.map((s, j) => ({ formula: s.formula, coeff: coeffs.right[j], state: s.state }));
+  const expression = equilibriumExpression(reactants, products, type);
+  const unit = type === "Kc" ? "M" : "atm";
+
+  // Columns of the ICE table: species that appear in K, in equation order.
+  const columns = [
+    ...left.map((s, i) => ({ side: "left" as const, i, sp: reactants[i] })),
+    ...right.map((s, j) => ({ side: "right" as const, i: j, sp: products[j] })),
+  ].filter((c) => !expression.excluded.includes(c.sp.formula));
+
+  const result = useMemo(() => {
+    const k = parseFloat(K);
+    if (!K.trim() || !Number.isFinite(k)) return null;
+    const num = (v: string) => (v.trim() ? parseFloat(v) : 0);
+    try {
+      return solveIce(
+        reactants,
+        products,
+        { left: initial.left.map(num), right: initial.right.map(num) },
+        k,
+        type
+      );
+    } catch (e) {
+      if (e instanceof EquilibriumError) return { error: e.message };
+      throw e;
+    }
+  }, [K, initial, type, key, coeffs]);
+
+  const ok = result && !("error" in result) ? result : null;
+  const rowFor = (formula: string, side: "left" | "right") =>
+    ok?.rows.find((r) => r.formula === formula && r.side === side);
+
+  return (
+    <div className="p-4 border rounded-2xl overflow-x-auto border-sky-200 bg-sky-50/70 dark:border-sky-900 dark:bg-sky-950/40">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <h3 className="font-medium">Equilibrium</h3>
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value as KType)}
+          className="rounded-lg border px-2 py-1 text-xs bg-white dark:bg-zinc-900 dark:border-zinc-700"
+        >
+          <option value="Kc">Kc (concentrations, M)</option>
+          <option value="Kp">Kp (partial pressures, atm)</option>
+        </select>
+      </div>
+
+      <div className="flex items-center gap-3 font-mono text-sm">
+        <span>{type} =</span>
+        <span className="inline-flex flex-col items-center">
+          <Terms terms={expression.numerator} type={type} />
+          {expression.denominator.length > 0 && (
+            <>
+              <span className="w-full border-t border-zinc-400 dark:border-zinc-500" />
+              <Terms terms={expression.denominator} type={type} />
+            </>
+          )}
+        </span>
+      </div>
+      {expression.excluded.length > 0 && (
+        <p className="mt-1 text-xs text-zinc-600 dark:text-zinc-400">
+          Left out of {type}: {expression.excluded.join(", ")}
+          {type === "Kc" ? " (pure solids and liquids)." : " (only gases count toward Kp)."}
+        </p>
+      )}
+
+      {columns.length > 0 && (
+        <>
+          <div className="mt-4 flex items-center gap-2 text-sm">
+            <label htmlFor="eq-k">{type} value</label>
+            <input
+              id="eq-k"
+              inputMode="decimal"
+              value={K}
+              placeholder="e.g. 49"
+              onChange={(e) => setK(e.target.value)}
+              className="w-28 rounded-lg border px-2 py-0.5 font-mono bg-white dark:bg-zinc-900 dark:border-zinc-700"
+            />
+          </div>
+
+          <table className="min-w-full text-sm mt-3">
+            <thead>
+              <tr className="text-left text-zinc-500 dark:text-zinc-400">
+                <th className="py-2 pr-4" />
+                {columns.map((c) => (
+                  <th key={`${c.side}-${c.i}`} className="py-2 pr-4 font-mono">
+                    {c.sp.formula} ({unit})
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-b">
+                <td className="py-1.5 pr-4 font-medium">I</td>
+                {columns.map((c) => (
+                  <td key={`${c.side}-${c.i}`} className="py-1.5 pr-4">
+                    <input
+                      inputMode="decimal"
+                      value={initial[c.side][c.i] ?? ""}
+                      placeholder="0"
+                      onChange={(e) =>
+                        setInitial((prev) => ({
+                          ...prev,
+                          [c.side]: prev[c.side].map((v, k) => (k === c.i ? e.target.value : v)),
+                        }))
+                      }
+                      className="w-20 rounded-lg border px-2 py-0.5 font-mono bg-white dark:bg-zinc-900 dark:border-zinc-700"
+                    />
+                  </td>
+                ))}
+              </tr>
+              <tr className="border-b">
+                <td className="py-1.5 pr-4 font-medium">C</td>
+                {columns.map((c) => {
+                  const r = rowFor(c.sp.formula, c.side);
+                  const nu = (c.side === "left" ? -1 : 1) * c.sp.coeff;
+                  return (
+                    <td key={`${c.side}-${c.i}`} className="py-1.5 pr-4 font-mono">
+                      {changeText(nu)}
+                      {r && <span className="text-zinc-500 dark:text-zinc-400"> = {fmt(r.change)}</span>}
+                    </td>
+                  );
+                })}
+              </tr>
+              <tr>
+                <td className="py-1.5 pr-4 font-medium">E</td>
+                {columns.map((c) => {
+                  const r = rowFor(c.sp.formula, c.side);
+                  return (
+                    <td key={`${c.side}-${c.i}`} className="py-1.5 pr-4 font-mono">
+                      {r ? fmt(r.equilibrium) : "—"}
+                    </td>
+                  );
+                })}
+              </tr>
+            </tbody>
+          </table>
+
+          {ok && (
+            <p className="mt-2 text-xs text-zinc-600 dark:text-zinc-400">
+              x = {fmt(ok.x)} {unit}
+              {ok.x < 0 ? " (the mixture shifts toward reactants)" : ""}; check: Q = {fmt(ok.Q)}.
+            </p>
+          )}
+          {result && "error" in result && (
+            <p className="mt-2 text-xs text-rose-700 dark:text-rose-300">{result.error}</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
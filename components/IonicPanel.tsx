@@ -0,0 +1,98 @@
+// components/IonicPanel.tsx
+import React, { useMemo } from "react";
+import { formatEquation, type Species } from "../lib/chem/parser";
+import { ionicEquations, IonicError, type ElectrolyteKind } from "../lib/chem/ionic";
+
+const KIND_LABEL: Record<ElectrolyteKind, string> = {
+  "strong-acid": "strong acid",
+  "weak-acid": "weak acid",
+  "strong-base": "strong base",
+  "weak-base": "weak base",
+  "soluble-salt": "soluble salt",
+  "insoluble-salt": "insoluble salt",
+  molecular: "molecular",
+  element: "element",
+  ion: "ion",
+};
+
+export default function IonicPanel({
+  left,
+  right,
+  coeffs,
+  onUse,
+}: {
+  left: Species[];
+  right: Species[];
+  coeffs: { left: number[]; right: number[] };
+  onUse: (equation: string) => void;
+}) {
+  const result = useMemo(() => {
+    try {
+      return ionicEquations(left, right, coeffs);
+    } catch (e) {
+      if (e instanceof IonicError) return null;
+      throw e;
+    }
+  }, [left, right, coeffs]);
+
+  // Nothing to split: the complete and net forms would repeat the equation.
+  if (!result || !result.species.some((d) => d.dissociates)) return null;
+
+  const forms = [
+    { title: "Molecular", eq: formatEquation(result.molecular.left, result.molecular.right) },
+    { title: "Complete ionic", eq: formatEquation(result.complete.left, result.complete.right) },
+  ];
+  const net = result.net && formatEquation(result.net.left, result.net.right);
+
+  return (
+    <div className="p-4 border rounded-2xl border-teal-200 bg-teal-50/60 dark:border-teal-900 dark:bg-teal-950/30">
+      <h3 className="font-medium mb-2">Ionic equations</h3>
+      <div className="grid gap-2 text-sm">
+        {forms.map((f) => (
+          <div key={f.title}>
+            <div className="text-xs text-zinc-500 dark:text-zinc-400">{f.title}</div>
+            <div className="font-mono break-words">{f.eq}</div>
+          </div>
+        ))}
+        <div>
+          <div className="text-xs text-zinc-500 dark:text-zinc-400">Net ionic</div>
+          {net ? (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-mono">{net}</span>
+              <button
+                onClick={() => onUse(net)}
+                className="px-3 py-1.5 rounded-xl border text-xs bg-emerald-600 text-white hover:bg-emerald-700"
+              >
+                Use this equation
+              </button>
+            </div>
+          ) : (
+            <div className="text-zinc-600 dark:text-zinc-400">
+              No net reaction — every ion is a spectator.
+            </div>
+          )}
+        </div>
+        {result.spectators.length > 0 && (
+          <div className="text-xs text-zinc-600 dark:text-zinc-400">
+            Spectator ions: <span className="font-mono">{result.spectators.join(", ")}</span>
+          </div>
+        )}
+      </div>
+
+      <details className="mt-3 text-sm">
+        <summary className="cursor-pointer text-xs text-zinc-600 dark:text-zinc-400">
+          Why each species was (or was not) split
+        </summary>
+        <ul className="mt-2 space-y-1">
+          {result.species.map((d, i) => (
+            <li key={i} className="flex flex-wrap gap-2">
+              <span className="font-mono">{d.formula}</span>
+              <span className="rounded-full border px-2 text-xs">{KIND_LABEL[d.kind]}</span>
+              <span className="text-xs text-zinc-600 dark:text-zinc-400">{d.reason}</span>
+            </li>
+          ))}
+        </ul>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+// components/MechanismBuilder.tsx
+import React, { useMemo, useState } from "react";
+import { formatEquation } from "../lib/chem/parser";
+import { balanceMechanism, MechanismError, splitSteps } from "../lib/chem/mechanism";
+
+const EXAMPLES = [
+  "Cl + O3 -> ClO + O2\nClO + O -> Cl + O2",
+  "N2 + H2 -> NH3\nNH3 + O2 -> NO + H2O\nNO + O2 -> NO2",
+  "H2O2(aq) + I^-(aq) -> H2O(l) + IO^-(aq)\nH2O2(aq) + IO^-(aq) -> H2O(l) + O2(g) + I^-(aq)",
+];
+
+function Chips({ label, items, tone }: { label: string; items: string[]; tone: string }) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-zinc-600 dark:text-zinc-400">{label}:</span>
+      {items.length ? (
+        items.map((f) => (
+          <span key={f} className={`font-mono px-2 py-0.5 rounded-full border ${tone}`}>
+            {f}
+          </span>
+        ))
+      ) : (
+        <span className="text-zinc-500">none</span>
+      )}
+    </div>
+  );
+}
+
+export default function MechanismBuilder() {
+  const [text, setText] = useState(EXAMPLES[0]);
+
+  const result = useMemo(() => {
+    const steps = splitSteps(text);
+    if (!steps.length) return null;
+    try {
+      return balanceMechanism(steps);
+    } catch (e) {
+      if (e instanceof MechanismError) return { error: e.message };
+      throw e;
+    }
+  }, [text]);
+
+  return (
+    <div className="grid gap-4">
+      <label className="grid gap-1 text-sm font-medium">
+        Steps (one per line)
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={5}
+          spellCheck={false}
+          className="rounded-2xl px-4 py-3 text-base font-mono
+            border border-zinc-200 bg-white text-zinc-900 placeholder-zinc-400
+            dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-100 dark:placeholder-zinc-500"
+        />
+      </label>
+      <div className="flex flex-wrap gap-2 text-xs">
+        {EXAMPLES.map((ex, i) => (
+          <button
+            key={i}
+            onClick={() => setText(ex)}
+            className="px-3 py-1.5 rounded-xl border hover:bg-zinc-50 dark:hover:bg-zinc-900"
+          >
+            Example {i + 1}
+          </button>
+        ))}
+      </div>
+
+      {result && "error" in result && (
+        <div className="p-3 border rounded-xl bg-rose-50 text-rose-800 dark:bg-rose-900/60 dark:text-rose-100">
+          {result.error}
+        </div>
+      )}
+
+      {result && "steps" in result && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-left text-zinc-500 dark:text-zinc-400">
+                <tr>
+                  <th className="py-1 pr-3">#</th>
+                  <th className="py-1 pr-3">Balanced step</th>
+                  <th className="py-1 pr-3">×</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.steps.map((s, i) => (
+                  <tr key={i} className="border-t border-zinc-200 dark:border-zinc-800">
+                    <td className="py-1 pr-3">{i + 1}</td>
+                    <td className="py-1 pr-3 font-mono">{formatEquation(s.left, s.right)}</td>
+                    <td className="py-1 pr-3 font-mono">{s.multiplier}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="p-4 rounded-2xl border bg-emerald-50 border-emerald-200 dark:bg-emerald-950/50 dark:border-emerald-900">
+            <div className="text-xs text-zinc-600 dark:text-zinc-400 mb-1">Net reaction</div>
+            <div className="font-mono">
+              {result.net.left.length || result.net.right.length
+                ? formatEquation(result.net.left, result.net.right)
+                : "Everything cancels"}
+            </div>
+            {!result.cancelled && (
+              <div className="mt-1 text-xs text-amber-700 dark:text-amber-300">
+                No whole-number multipliers cancel every species that is both made and used; steps are added once each.
+              </div>
+            )}
+          </div>
+
+          <Chips
+            label="Intermediates"
+            items={result.intermediates}
+            tone="bg-sky-50 border-sky-200 dark:bg-sky-950 dark:border-sky-800"
+          />
+          <Chips
+            label="Catalysts"
+            items={result.catalysts}
+            tone="bg-amber-50 border-amber-200 dark:bg-amber-950 dark:border-amber-800"
+          />
+        </>
+      )}
+    </div>
+  );
+}
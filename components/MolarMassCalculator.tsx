@@ -0,0 +1,97 @@
+// components/MolarMassCalculator.tsx
+import React, { useMemo, useState } from "react";
+import { UnknownElementError } from "../lib/chem/parser";
+import { formulaDiagnostics } from "../lib/chem/diagnostics";
+import { getElement } from "../lib/chem/elements";
+import { molarMass, percentComposition } from "../lib/chem/mass";
+
+export default function MolarMassCalculator() {
+  const [formula, setFormula] = useState("CuSO4·5H2O");
+  const [precision, setPrecision] = useState(3);
+
+  const result = useMemo(() => {
+    if (!formula.trim()) return null;
+    const problems = formulaDiagnostics(formula).filter((d) => d.severity === "error");
+    if (problems.length) return { error: problems[0].message };
+    try {
+      return {
+        molar: molarMass(formula, { precision }),
+        composition: percentComposition(formula, { precision }),
+      };
+    } catch (e) {
+      if (e instanceof UnknownElementError) return { error: e.message };
+      throw e;
+    }
+  }, [formula, precision]);
+
+  return (
+    <div className="grid gap-4">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+        <label className="flex-1 grid gap-1 text-sm font-medium">
+          Formula
+          <input
+            value={formula}
+            onChange={(e) => setFormula(e.target.value)}
+            placeholder="e.g., Ca3(PO4)2"
+            className="rounded-2xl px-4 py-3 text-base font-mono
+              border border-zinc-200 bg-white text-zinc-900 placeholder-zinc-400
+              dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-100 dark:placeholder-zinc-500"
+          />
+        </label>
+        <label className="grid gap-1 text-sm font-medium">
+          Decimal places
+          <select
+            value={precision}
+            onChange={(e) => setPrecision(parseInt(e.target.value, 10))}
+            className="rounded-2xl border px-3 py-3 text-sm bg-white dark:bg-zinc-950 dark:border-zinc-800"
+          >
+            {[0, 1, 2, 3, 4].map((p) => (
+              <option key={p} value={p}>
+                {p}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {result && "error" in result && (
+        <div className="p-3 border rounded-xl bg-rose-50 text-rose-800 dark:bg-rose-900/60 dark:text-rose-100">
+          {result.error}
+        </div>
+      )}
+
+      {result && "molar" in result && (
+        <div className="p-4 border rounded-2xl overflow-x-auto border-zinc-200 dark:border-zinc-800 bg-white/80 dark:bg-zinc-950/60">
+          <div className="flex items-baseline justify-between mb-3">
+            <h3 className="font-medium">Molar mass</h3>
+            <span className="font-mono text-lg">{result.molar} g/mol</span>
+          </div>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-zinc-500 dark:text-zinc-400">
+                <th className="py-2 pr-4">Element</th>
+                <th className="py-2 pr-4">Atoms</th>
+                <th className="py-2 pr-4">Atomic weight</th>
+                <th className="py-2 pr-4">Mass (g/mol)</th>
+                <th className="py-2 pr-4">Mass %</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.composition.map((c) => (
+                <tr key={c.element} className="border-b last:border-0">
+                  <td className="py-1.5 pr-4 font-medium" title={getElement(c.element)?.name}>
+                    {c.element}
+                  </td>
+                  <td className="py-1.5 pr-4">{c.count}</td>
+                  <td className="py-1.5 pr-4">{getElement(c.element)?.atomicWeight}</td>
+                  <td className="py-1.5 pr-4 font-mono">{c.mass}</td>
+                  <td className="py-1.5 pr-4 font-mono">{c.percent}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
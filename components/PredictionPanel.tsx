@@ -0,0 +1,52 @@
+// components/PredictionPanel.tsx
+import React, { useMemo } from "react";
+import { formatEquation } from "../lib/chem/parser";
+import { predictProducts, PredictionError } from "../lib/chem/predict";
+import { REACTION_TYPE_LABEL } from "../lib/chem/classify";
+
+export default function PredictionPanel({
+  left,
+  onUse,
+}: {
+  left: string[];
+  onUse: (equation: string) => void;
+}) {
+  const result = useMemo(() => {
+    try {
+      return predictProducts(left);
+    } catch (e) {
+      if (e instanceof PredictionError) return { error: e.message };
+      throw e;
+    }
+  }, [left]);
+
+  if ("error" in result) {
+    return (
+      <div className="p-3 border rounded-xl bg-zinc-50 text-sm text-zinc-700 dark:bg-zinc-900/70 dark:border-zinc-800 dark:text-zinc-300">
+        <span className="font-medium">Predict products:</span> {result.error}
+      </div>
+    );
+  }
+
+  const terms = (formulas: string[], k: number[]) => formulas.map((formula, i) => ({ formula, coeff: k[i] }));
+  const equation = formatEquation(terms(result.left, result.coeffs.left), terms(result.right, result.coeffs.right));
+
+  return (
+    <div className="p-4 border rounded-2xl bg-emerald-50 border-emerald-200 dark:bg-emerald-950/40 dark:border-emerald-900">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+        <h3 className="font-medium">Predicted products</h3>
+        <span className="px-2 py-0.5 rounded-full text-xs border">{REACTION_TYPE_LABEL[result.type]}</span>
+      </div>
+      <p className="text-xs text-zinc-600 dark:text-zinc-400">{result.reason}</p>
+      <div className="mt-2 flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-mono">{equation}</span>
+        <button
+          onClick={() => onUse(equation)}
+          className="px-3 py-1.5 rounded-xl border text-xs bg-emerald-600 text-white hover:bg-emerald-700"
+        >
+          Use this equation
+        </button>
+      </div>
+    </div>
+  );
+}
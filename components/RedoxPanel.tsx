@@ -0,0 +1,124 @@
+// components/RedoxPanel.tsx
+import React, { useEffect, useState } from "react";
+import { formatEquation } from "../lib/chem/parser";
+import { balanceRedox, RedoxError, type Medium, type RedoxResult, type RedoxStep } from "../lib/chem/redox";
+
+function StepList({ steps }: { steps: RedoxStep[] }) {
+  return (
+    <ol className="list-decimal pl-5 space-y-1">
+      {steps.map((s, i) => (
+        <li key={i}>
+          <div className="text-xs text-zinc-500 dark:text-zinc-400">{s.title}</div>
+          <div className="font-mono text-sm">{formatEquation(s.reaction.left, s.reaction.right)}</div>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+export default function RedoxPanel({
+  left,
+  right,
+  onUse,
+}: {
+  left: string[];
+  right: string[];
+  onUse: (equation: string) => void;
+}) {
+  const [medium, setMedium] = useState<Medium>("acidic");
+  const [result, setResult] = useState<RedoxResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const key = `${left.join("|")}->${right.join("|")}`;
+  useEffect(() => {
+    setResult(null);
+    setError(null);
+  }, [key]);
+
+  const run = (m: Medium) => {
+    try {
+      setResult(balanceRedox(left, right, m));
+      setError(null);
+    } catch (e) {
+      if (!(e instanceof RedoxError)) throw e;
+      setResult(null);
+      setError(e.message);
+    }
+  };
+
+  const final = result && formatEquation(result.reaction.left, result.reaction.right);
+  const skeleton = result && formatEquation(result.skeleton.left, result.skeleton.right);
+
+  return (
+    <div className="p-4 border rounded-2xl bg-violet-50 border-violet-200 dark:bg-violet-950/50 dark:border-violet-900">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <h3 className="font-medium">Half-reaction method (redox)</h3>
+        <div className="flex items-center gap-2 text-xs">
+          <select
+            value={medium}
+            onChange={(e) => {
+              const m = e.target.value as Medium;
+              setMedium(m);
+              if (result) run(m);
+            }}
+            className="rounded-lg border px-2 py-1 bg-white dark:bg-zinc-900 dark:border-zinc-700"
+          >
+            <option value="acidic">Acidic (H+)</option>
+            <option value="basic">Basic (OH-)</option>
+          </select>
+          <button
+            onClick={() => run(medium)}
+            className="px-3 py-1.5 rounded-xl border hover:bg-white dark:hover:bg-zinc-900"
+          >
+            Balance by half-reactions
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-zinc-600 dark:text-zinc-400">
+        For skeleton equations without H2O, H+/OH- or electrons: split into oxidation and
+        reduction, balance each half, then recombine. Molecular equations are reduced to
+        their net ionic form first.
+      </p>
+
+      {error && <p className="mt-2 text-xs text-rose-700 dark:text-rose-300">{error}</p>}
+
+      {result && (
+        <div className="mt-3 grid gap-3 text-sm">
+          {skeleton !== `${left.join(" + ")} -> ${right.join(" + ")}` && (
+            <div>
+              <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                Net ionic skeleton (spectators and unchanged species removed)
+              </div>
+              <div className="font-mono">{skeleton}</div>
+            </div>
+          )}
+          {result.halves.map((h) => (
+            <details key={h.kind} className="rounded-xl border bg-white/70 dark:bg-zinc-900/60 p-3" open>
+              <summary className="cursor-pointer font-medium capitalize">
+                {h.kind} ({h.electrons} e-)
+              </summary>
+              <div className="mt-2">
+                <StepList steps={h.steps} />
+              </div>
+            </details>
+          ))}
+          <details className="rounded-xl border bg-white/70 dark:bg-zinc-900/60 p-3" open>
+            <summary className="cursor-pointer font-medium">Combine the halves</summary>
+            <div className="mt-2">
+              <StepList steps={result.steps} />
+            </div>
+          </details>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-mono">{final}</span>
+            <button
+              onClick={() => onUse(final)}
+              className="px-3 py-1.5 rounded-xl border text-xs bg-emerald-600 text-white hover:bg-emerald-700"
+            >
+              Use this equation
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+// components/SolverWalkthrough.tsx
+import React, { useMemo, useState } from "react";
+import { countElementsInFormula, formulaCharge } from "../lib/chem/parser";
+import { traceSolve } from "../lib/chem/solver";
+
+function MatrixTable({
+  rows,
+  cols,
+  cells,
+  pivot,
+}: {
+  rows: string[];
+  cols: string[];
+  cells: Array<Array<string | number>>;
+  pivot?: { row: number; col: number };
+}) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-xs font-mono border-collapse">
+        <thead>
+          <tr>
+            <th />
+            {cols.map((c, j) => (
+              <th key={j} className="px-2 py-1 font-normal text-zinc-500 dark:text-zinc-400">
+                {c}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {cells.map((r, i) => (
+            <tr key={i}>
+              <th className="pr-2 py-0.5 text-right font-normal text-zinc-500 dark:text-zinc-400">
+                {rows[i]}
+              </th>
+              {r.map((v, j) => (
+                <td
+                  key={j}
+                  className={`px-2 py-0.5 text-right ${
+                    pivot && pivot.row === i && pivot.col === j
+                      ? "bg-amber-100 dark:bg-amber-900 rounded"
+                      : ""
+                  }`}
+                >
+                  {v}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function SolverWalkthrough({ left, right }: { left: string[]; right: string[] }) {
+  const [open, setOpen] = useState(false);
+  const trace = useMemo(
+    () => (open ? traceSolve(left, right, countElementsInFormula, formulaCharge) : null),
+    [open, left.join("|"), right.join("|")]
+  );
+
+  const x = (j: number) => `x${j + 1}`;
+  const cols = trace ? trace.colLabels.map((f, j) => `${x(j)} ${f}`) : [];
+  const rows = trace ? trace.rowLabels.map((r, i) => `R${i + 1} ${r}`) : [];
+
+  return (
+    <details
+      className="p-4 border rounded-2xl bg-zinc-50/70 border-zinc-200 dark:bg-zinc-900/80 dark:border-zinc-800"
+      onToggle={(e) => setOpen((e.target as HTMLDetailsElement).open)}
+    >
+      <summary className="cursor-pointer font-medium">Step-by-step solution (matrix method)</summary>
+      {trace && (
+        <ol className="mt-3 space-y-4 text-sm list-decimal pl-5">
+          <li>
+            <div className="mb-1">
+              Element matrix: one row per element{trace.rowLabels.includes("charge") ? " and one for charge" : ""},
+              one column per species (products negated). We want A·x = 0.
+            </div>
+            <MatrixTable rows={rows} cols={cols} cells={trace.matrix} />
+          </li>
+          <li>
+            <div className="mb-1">Gauss–Jordan elimination ({trace.operations.length} row operations)</div>
+            <ul className="space-y-1">
+              {trace.operations.map((op, k) => (
+                <li key={k}>
+                  <details>
+                    <summary className="cursor-pointer font-mono text-xs">
+                      {op.text}
+                      <span className="ml-2 text-zinc-500 dark:text-zinc-400">
+                        pivot {x(op.pivot.col)} in R{op.pivot.row + 1}
+                      </span>
+                    </summary>
+                    <div className="mt-1">
+                      <MatrixTable rows={rows} cols={cols} cells={op.matrix} pivot={op.pivot} />
+                    </div>
+                  </details>
+                </li>
+              ))}
+            </ul>
+          </li>
+          <li>
+            <div className="mb-1">
+              Reduced row echelon form. Free {trace.freeCols.length === 1 ? "coefficient" : "coefficients"}:{" "}
+              {trace.freeCols.map((f) => `${x(f)} (${trace.colLabels[f]})`).join(", ") || "none"}
+            </div>
+            <MatrixTable rows={trace.rowLabels.map((_, i) => `R${i + 1}`)} cols={cols} cells={trace.reduced} />
+          </li>
+          {trace.freeCols.length > 0 && (
+            <li>
+              <div className="mb-1">Back-substitution</div>
+              <ul className="font-mono text-xs space-y-0.5">
+                {trace.freeCols.map((f, i) => (
+                  <li key={`f${f}`}>
+                    {x(f)} = {trace.freeValues[i]} <span className="text-zinc-500">(chosen)</span>
+                  </li>
+                ))}
+                {trace.backSubstitution.map((b) => (
+                  <li key={b.col}>
+                    {x(b.col)} = {b.terms.map((t) => `${t.coeff}·${x(t.col)}`).join(" + ") || "0"} ={" "}
+                    {trace.rational[b.col]}
+                  </li>
+                ))}
+              </ul>
+            </li>
+          )}
+          {trace.freeCols.length > 0 && (
+            <li>
+              Multiply by the LCM of the denominators ({trace.lcm}):{" "}
+              {trace.solution ? (
+                <span className="font-mono">
+                  {[...trace.solution.left, ...trace.solution.right].join(", ")}
+                </span>
+              ) : (
+                <span className="text-rose-700 dark:text-rose-300">
+                  no choice of the free coefficients makes every coefficient positive
+                </span>
+              )}
+            </li>
+          )}
+        </ol>
+      )}
+    </details>
+  );
+}
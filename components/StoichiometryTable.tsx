@@ -0,0 +1,330 @@
+// components/StoichiometryTable.tsx
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  stoichiometry,
+  StoichiometryError,
+  type Amount,
+  type AmountUnit,
+} from "../lib/chem/stoichiometry";
+import { UnknownElementError, type PhysicalState } from "../lib/chem/parser";
+import {
+  gasVolumeRatios,
+  GasError,
+  PRESSURE_UNITS,
+  SATP,
+  STP,
+  TEMPERATURE_UNITS,
+  VOLUME_UNIT_LABEL,
+  VOLUME_UNITS,
+  type GasConditions,
+  type PressureUnit,
+  type TemperatureUnit,
+  type VolumeUnit,
+} from "../lib/chem/gas";
+
+// `volume` is the solution volume that goes with a molarity.
+type Field = { value: string; unit: AmountUnit; volume?: { value: string; unit: VolumeUnit } };
+type ConditionsPreset = "STP" | "SATP" | "custom";
+
+const UNITS: AmountUnit[] = ["g", "mol", "particles"];
+const GAS_UNITS: AmountUnit[] = [...UNITS, ...VOLUME_UNITS];
+const SOLUTION_UNITS: AmountUnit[] = [...UNITS, "M"];
+
+function fmt(x: number) {
+  if (x === 0) return "0";
+  const a = Math.abs(x);
+  return a >= 1e5 || a < 1e-3 ? x.toExponential(3) : Number(x.toPrecision(4)).toString();
+}
+
+function toAmount(f: Field): Amount | null {
+  const v = parseFloat(f.value);
+  if (!f.value.trim() || !Number.isFinite(v)) return null;
+  if (f.unit !== "M") return { value: v, unit: f.unit };
+  const vol = parseFloat(f.volume?.value ?? "");
+  return { value: v, unit: f.unit, volume: Number.isFinite(vol) ? { value: vol, unit: f.volume!.unit } : undefined };
+}
+
+function AmountInput({
+  field,
+  onChange,
+  placeholder,
+  gas = false,
+  solution = false,
+}: {
+  field: Field;
+  onChange: (f: Field) => void;
+  placeholder: string;
+  gas?: boolean;
+  solution?: boolean;
+}) {
+  const volume = field.volume ?? { value: "", unit: "mL" as VolumeUnit };
+  return (
+    <div className="flex items-center gap-1">
+      <input
+        inputMode="decimal"
+        value={field.value}
+        placeholder={placeholder}
+        onChange={(e) => onChange({ ...field, value: e.target.value })}
+        className="w-24 rounded-lg border px-2 py-0.5 font-mono bg-white dark:bg-zinc-900 dark:border-zinc-700"
+      />
+      <select
+        value={field.unit}
+        onChange={(e) => onChange({ ...field, unit: e.target.value as AmountUnit })}
+        className="rounded-lg border px-1 py-0.5 text-xs bg-white dark:bg-zinc-900 dark:border-zinc-700"
+      >
+        {(gas ? GAS_UNITS : solution ? SOLUTION_UNITS : UNITS).map((u) => (
+          <option key={u} value={u}>
+            {VOLUME_UNIT_LABEL[u] ?? u}
+          </option>
+        ))}
+      </select>
+      {field.unit === "M" && (
+        <>
+          <span className="text-xs text-zinc-500">×</span>
+          <input
+            inputMode="decimal"
+            aria-label="Solution volume"
+            value={volume.value}
+            placeholder="volume"
+            onChange={(e) => onChange({ ...field, volume: { ...volume, value: e.target.value } })}
+            className="w-20 rounded-lg border px-2 py-0.5 font-mono bg-white dark:bg-zinc-900 dark:border-zinc-700"
+          />
+          <select
+            value={volume.unit}
+            onChange={(e) => onChange({ ...field, volume: { ...volume, unit: e.target.value as VolumeUnit } })}
+            className="rounded-lg border px-1 py-0.5 text-xs bg-white dark:bg-zinc-900 dark:border-zinc-700"
+          >
+            {VOLUME_UNITS.map((u) => (
+              <option key={u} value={u}>
+                {VOLUME_UNIT_LABEL[u]}
+              </option>
+            ))}
+          </select>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function StoichiometryTable({
+  left,
+  right,
+  coeffs,
+  states = { left: [], right: [] },
+}: {
+  left: string[];
+  right: string[];
+  coeffs: { left: number[]; right: number[] };
+  // Physical states; (g) species can be given and shown as volumes, (aq)
+  // species given as molarity × volume.
+  states?: { left: Array<PhysicalState | undefined>; right: Array<PhysicalState | undefined> };
+}) {
+  const blank = (): Field => ({ value: "", unit: "g" });
+  const [given, setGiven] = useState<Field[]>(() => left.map(blank));
+  const [actual, setActual] = useState<Field[]>(() => right.map(blank));
+  const [preset, setPreset] = useState<ConditionsPreset>("STP");
+  const [custom, setCustom] = useState({
+    temperature: { value: "25", unit: "°C" as TemperatureUnit },
+    pressure: { value: "1", unit: "atm" as PressureUnit },
+  });
+
+  const isGas = (side: "left" | "right", i: number) => states[side][i] === "g";
+  const isSolution = (side: "left" | "right", i: number) => states[side][i] === "aq";
+  const anyGas = [...states.left, ...states.right].includes("g");
+  const conditions: GasConditions =
+    preset === "STP"
+      ? STP
+      : preset === "SATP"
+        ? SATP
+        : {
+            temperature: { value: parseFloat(custom.temperature.value), unit: custom.temperature.unit },
+            pressure: { value: parseFloat(custom.pressure.value), unit: custom.pressure.unit },
+          };
+  const ratios = gasVolumeRatios([
+    ...left.map((formula, i) => ({ formula, coeff: coeffs.left[i], state: states.left[i] })),
+    ...right.map((formula, j) => ({ formula, coeff: coeffs.right[j], state: states.right[j] })),
+  ]);
+
+  const key = `${left.join("|")}->${right.join("|")}`;
+  useEffect(() => {
+    setGiven(left.map(blank));
+    setActual(right.map(blank));
+  }, [key]);
+
+  const result = useMemo(() => {
+    if (!given.some((f) => toAmount(f))) return null;
+    try {
+      return stoichiometry(
+        left.map((formula, i) => ({ formula, coeff: coeffs.left[i], state: states.left[i] })),
+        right.map((formula, j) => ({ formula, coeff: coeffs.right[j], state: states.right[j] })),
+        given.map(toAmount),
+        actual.map(toAmount),
+        anyGas ? { conditions } : {}
+      );
+    } catch (e) {
+      if (e instanceof StoichiometryError || e instanceof UnknownElementError || e instanceof GasError) {
+        return { error: e.message };
+      }
+      throw e;
+    }
+  }, [left, right, coeffs, given, actual, states, preset, custom]);
+
+  const liters = (q?: { liters?: number } | null) => (q?.liters !== undefined ? fmt(q.liters) : "—");
+
+  const ok = result && !("error" in result) ? result : null;
+
+  return (
+    <div className="p-4 border rounded-2xl overflow-x-auto border-zinc-200 dark:border-zinc-800 bg-white/80 dark:bg-zinc-950/60">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="font-medium">Stoichiometry</h3>
+        {ok && (
+          <span className="text-xs text-zinc-500 dark:text-zinc-400">
+            Limiting reagent:{" "}
+            <span className="font-mono font-medium text-zinc-800 dark:text-zinc-100">
+              {ok.limiting.map((i) => left[i]).join(", ")}
+            </span>
+          </span>
+        )}
+      </div>
+      <p className="text-xs text-zinc-500 dark:text-zinc-400 mb-3">
+        Enter amounts for the reactants you have (blank = in excess). Add an actual
+        yield to a product to get its percent yield.
+      </p>
+
+      {anyGas && (
+        <div className="mb-3 flex flex-wrap items-center gap-2 text-xs">
+          <span>Gases (g) at</span>
+          <select
+            value={preset}
+            onChange={(e) => setPreset(e.target.value as ConditionsPreset)}
+            className="rounded-lg border px-1 py-0.5 bg-white dark:bg-zinc-900 dark:border-zinc-700"
+          >
+            <option value="STP">STP (0 °C, 1 atm)</option>
+            <option value="SATP">SATP (25 °C, 100 kPa)</option>
+            <option value="custom">Custom T and P</option>
+          </select>
+          {preset === "custom" &&
+            (["temperature", "pressure"] as const).map((key) => (
+              <span key={key} className="flex items-center gap-1">
+                <input
+                  inputMode="decimal"
+                  aria-label={key}
+                  value={custom[key].value}
+                  onChange={(e) => setCustom((c) => ({ ...c, [key]: { ...c[key], value: e.target.value } }))}
+                  className="w-16 rounded-lg border px-2 py-0.5 font-mono bg-white dark:bg-zinc-900 dark:border-zinc-700"
+                />
+                <select
+                  value={custom[key].unit}
+                  onChange={(e) => setCustom((c) => ({ ...c, [key]: { ...c[key], unit: e.target.value } }))}
+                  className="rounded-lg border px-1 py-0.5 bg-white dark:bg-zinc-900 dark:border-zinc-700"
+                >
+                  {(key === "temperature" ? TEMPERATURE_UNITS : PRESSURE_UNITS).map((u) => (
+                    <option key={u} value={u}>
+                      {u}
+                    </option>
+                  ))}
+                </select>
+              </span>
+            ))}
+          {ratios.length > 1 && (
+            <span className="text-zinc-500 dark:text-zinc-400">
+              Volume ratio{" "}
+              <span className="font-mono">
+                {ratios.map((r) => r.formula).join(" : ")} = {ratios.map((r) => r.ratio).join(" : ")}
+              </span>
+            </span>
+          )}
+        </div>
+      )}
+
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-zinc-500 dark:text-zinc-400">
+            <th className="py-2 pr-4">Reactant</th>
+            <th className="py-2 pr-4">Amount</th>
+            <th className="py-2 pr-4">Moles</th>
+            <th className="py-2 pr-4">Consumed (g)</th>
+            <th className="py-2 pr-4">Left over (g)</th>
+            {anyGas && <th className="py-2 pr-4">Consumed (L)</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {left.map((formula, i) => {
+            const r = ok?.reactants[i];
+            const limiting = ok?.limiting.includes(i);
+            return (
+              <tr
+                key={`R-${formula}-${i}`}
+                className={`border-b last:border-0 ${
+                  limiting ? "bg-amber-50 dark:bg-amber-900/60" : ""
+                }`}
+              >
+                <td className="py-1.5 pr-4 font-mono">
+                  {coeffs.left[i]} {formula}
+                  {limiting && <span className="ml-2 text-xs text-amber-700 dark:text-amber-200">limiting</span>}
+                </td>
+                <td className="py-1.5 pr-4">
+                  <AmountInput
+                    field={given[i] ?? blank()}
+                    placeholder="excess"
+                    gas={isGas("left", i)}
+                    solution={isSolution("left", i)}
+                    onChange={(f) => setGiven((g) => g.map((x, j) => (j === i ? f : x)))}
+                  />
+                </td>
+                <td className="py-1.5 pr-4 font-mono">{r?.given ? fmt(r.given.moles) : "—"}</td>
+                <td className="py-1.5 pr-4 font-mono">{r ? fmt(r.consumed.grams) : "—"}</td>
+                <td className="py-1.5 pr-4 font-mono">{r?.leftover ? fmt(r.leftover.grams) : "—"}</td>
+                {anyGas && <td className="py-1.5 pr-4 font-mono">{liters(r?.consumed)}</td>}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <table className="min-w-full text-sm mt-4">
+        <thead>
+          <tr className="text-left text-zinc-500 dark:text-zinc-400">
+            <th className="py-2 pr-4">Product</th>
+            <th className="py-2 pr-4">Theoretical (mol)</th>
+            <th className="py-2 pr-4">Theoretical (g)</th>
+            {anyGas && <th className="py-2 pr-4">Theoretical (L)</th>}
+            <th className="py-2 pr-4">Actual yield</th>
+            <th className="py-2 pr-4">% yield</th>
+          </tr>
+        </thead>
+        <tbody>
+          {right.map((formula, j) => {
+            const p = ok?.products[j];
+            return (
+              <tr key={`P-${formula}-${j}`} className="border-b last:border-0">
+                <td className="py-1.5 pr-4 font-mono">
+                  {coeffs.right[j]} {formula}
+                </td>
+                <td className="py-1.5 pr-4 font-mono">{p ? fmt(p.theoretical.moles) : "—"}</td>
+                <td className="py-1.5 pr-4 font-mono">{p ? fmt(p.theoretical.grams) : "—"}</td>
+                {anyGas && <td className="py-1.5 pr-4 font-mono">{liters(p?.theoretical)}</td>}
+                <td className="py-1.5 pr-4">
+                  <AmountInput
+                    field={actual[j] ?? blank()}
+                    placeholder="optional"
+                    gas={isGas("right", j)}
+                    solution={isSolution("right", j)}
+                    onChange={(f) => setActual((a) => a.map((x, k) => (k === j ? f : x)))}
+                  />
+                </td>
+                <td className="py-1.5 pr-4 font-mono">
+                  {p?.percentYield != null ? `${p.percentYield.toFixed(1)}%` : "—"}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {result && "error" in result && (
+        <p className="mt-2 text-xs text-rose-700 dark:text-rose-300">{result.error}</p>
+      )}
+    </div>
+  );
+}
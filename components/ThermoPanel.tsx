@@ -0,0 +1,119 @@
+// components/ThermoPanel.tsx
+import React, { useState } from "react";
+import { formatSpecies, type Species } from "../lib/chem/parser";
+import { gibbsAt, reactionThermo, STANDARD_TEMPERATURE } from "../lib/chem/thermo";
+
+function fmt(x: number | null, digits = 1) {
+  if (x === null) return "—";
+  return (x > 0 ? "+" : "") + x.toFixed(digits);
+}
+
+export default function ThermoPanel({
+  left,
+  right,
+  coeffs,
+}: {
+  left: Species[];
+  right: Species[];
+  coeffs: { left: number[]; right: number[] };
+}) {
+  const [temperature, setTemperature] = useState(String(STANDARD_TEMPERATURE));
+
+  const result = reactionThermo(
+    left.map((s, i) => ({ formula: s.formula, coeff: coeffs.left[i], state: s.state })),
+    right.map((s, j) => ({ formula: s.formula, coeff: coeffs.right[j], state: s.state }))
+  );
+  const T = parseFloat(temperature);
+  const dGT = Number.isFinite(T) && T > 0 ? gibbsAt(result, T) : null;
+
+  return (
+    <div className="p-4 border rounded-2xl overflow-x-auto border-orange-200 bg-orange-50/60 dark:border-orange-900 dark:bg-orange-950/30">
+      <h3 className="font-medium mb-1">Thermochemistry</h3>
+      <p className="text-xs text-zinc-600 dark:text-zinc-400 mb-3">
+        Standard values at 298.15 K from the built-in table. ΔG at other temperatures uses
+        ΔG = ΔH − TΔS, with ΔH° and ΔS° taken as constant.
+      </p>
+
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-zinc-500 dark:text-zinc-400">
+            <th className="py-2 pr-4">Species</th>
+            <th className="py-2 pr-4">ΔHf° (kJ/mol)</th>
+            <th className="py-2 pr-4">S° (J/mol·K)</th>
+            <th className="py-2 pr-4">ΔGf° (kJ/mol)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {result.terms.map((t, k) => (
+            <tr key={k} className="border-b last:border-0">
+              <td className="py-1.5 pr-4 font-mono">
+                {formatSpecies({ coeff: t.coeff, formula: t.formula, state: t.entry?.state ?? t.state })}
+                {t.assumedState && (
+                  <span className="ml-1 text-xs text-zinc-500" title="No state written; standard state assumed">
+                    *
+                  </span>
+                )}
+              </td>
+              {t.entry ? (
+                <>
+                  <td className="py-1.5 pr-4 font-mono">{t.entry.dHf}</td>
+                  <td className="py-1.5 pr-4 font-mono">{t.entry.S}</td>
+                  <td className="py-1.5 pr-4 font-mono">{t.entry.dGf}</td>
+                </>
+              ) : (
+                <td colSpan={3} className="py-1.5 pr-4 text-xs text-rose-700 dark:text-rose-300">
+                  Not in the table{t.state ? ` as (${t.state})` : ""}
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {result.missing.length > 0 ? (
+        <p className="mt-3 text-xs text-rose-700 dark:text-rose-300">
+          No data for {result.missing.map((t) => t.formula).join(", ")} — ΔH°, ΔS° and ΔG° need
+          every species. Check the physical states, or try a species the table lists.
+        </p>
+      ) : (
+        <div className="mt-3 grid gap-1 text-sm">
+          <div>
+            ΔH°rxn = <span className="font-mono">{fmt(result.dH)} kJ</span>
+            <span className="ml-2 text-xs text-zinc-500">
+              {result.dH! < 0 ? "exothermic" : result.dH! > 0 ? "endothermic" : ""}
+            </span>
+          </div>
+          <div>
+            ΔS°rxn = <span className="font-mono">{fmt(result.dS)} J/K</span>
+          </div>
+          <div>
+            ΔG°rxn (298.15 K) = <span className="font-mono">{fmt(result.dG)} kJ</span>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <label htmlFor="thermo-t">ΔG at T =</label>
+            <input
+              id="thermo-t"
+              inputMode="decimal"
+              value={temperature}
+              onChange={(e) => setTemperature(e.target.value)}
+              className="w-24 rounded-lg border px-2 py-0.5 font-mono bg-white dark:bg-zinc-900 dark:border-zinc-700"
+            />
+            <span>K:</span>
+            <span className="font-mono">{fmt(dGT)} kJ</span>
+            {dGT !== null && (
+              <span className="text-xs text-zinc-500">
+                {dGT < 0 ? "spontaneous" : dGT > 0 ? "non-spontaneous" : "at equilibrium"}
+              </span>
+            )}
+          </div>
+          {result.crossover !== null && (
+            <p className="text-xs text-zinc-600 dark:text-zinc-400">
+              ΔG changes sign near {result.crossover.toFixed(0)} K — spontaneous{" "}
+              {result.dH! > 0 ? "above" : "below"} this temperature.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
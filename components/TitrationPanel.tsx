@@ -0,0 +1,185 @@
+// components/TitrationPanel.tsx
+import React, { useEffect, useMemo, useState } from "react";
+import { formatSpecies, type Species } from "../lib/chem/parser";
+import { fromLiters, VOLUME_UNIT_LABEL, VOLUME_UNITS, type VolumeUnit } from "../lib/chem/gas";
+import { titrate, SolutionError } from "../lib/chem/solution";
+
+type Mode = "concentration" | "equivalence";
+type VolumeField = { value: string; unit: VolumeUnit };
+
+const inputClass =
+  "w-20 rounded-lg border px-2 py-0.5 font-mono bg-white dark:bg-zinc-900 dark:border-zinc-700";
+const selectClass = "rounded-lg border px-1 py-0.5 text-xs bg-white dark:bg-zinc-900 dark:border-zinc-700";
+
+function fmt(x: number) {
+  if (x === 0) return "0";
+  const a = Math.abs(x);
+  return a >= 1e5 || a < 1e-3 ? x.toExponential(3) : Number(x.toPrecision(4)).toString();
+}
+
+const num = (s: string) => (s.trim() ? parseFloat(s) : NaN);
+
+function VolumeInput({
+  field,
+  onChange,
+  label,
+}: {
+  field: VolumeField;
+  onChange: (f: VolumeField) => void;
+  label: string;
+}) {
+  return (
+    <span className="flex items-center gap-1">
+      <input
+        inputMode="decimal"
+        aria-label={label}
+        value={field.value}
+        onChange={(e) => onChange({ ...field, value: e.target.value })}
+        className={inputClass}
+      />
+      <select
+        value={field.unit}
+        onChange={(e) => onChange({ ...field, unit: e.target.value as VolumeUnit })}
+        className={selectClass}
+      >
+        {VOLUME_UNITS.map((u) => (
+          <option key={u} value={u}>
+            {VOLUME_UNIT_LABEL[u]}
+          </option>
+        ))}
+      </select>
+    </span>
+  );
+}
+
+export default function TitrationPanel({
+  left,
+  coeffs,
+}: {
+  left: Species[];
+  coeffs: { left: number[]; right: number[] };
+}) {
+  // Titrant and analyte are both reactants; default to the first two.
+  const [titrant, setTitrant] = useState(0);
+  const [analyte, setAnalyte] = useState(1);
+  const [mode, setMode] = useState<Mode>("concentration");
+  const [titrantMolarity, setTitrantMolarity] = useState("");
+  const [titrantVolume, setTitrantVolume] = useState<VolumeField>({ value: "", unit: "mL" });
+  const [analyteVolume, setAnalyteVolume] = useState<VolumeField>({ value: "", unit: "mL" });
+  const [analyteMolarity, setAnalyteMolarity] = useState("");
+
+  const key = left.map((s) => s.formula).join("|");
+  useEffect(() => {
+    setTitrant(0);
+    setAnalyte(1);
+  }, [key]);
+
+  const result = useMemo(() => {
+    if (!left[titrant] || !left[analyte]) return null;
+    if (!titrantMolarity.trim() || !analyteVolume.value.trim()) return null;
+    if (mode === "concentration" ? !titrantVolume.value.trim() : !analyteMolarity.trim()) return null;
+    const pick = (i: number) => ({ formula: left[i].formula, coeff: coeffs.left[i] });
+    try {
+      return titrate({
+        titrant: pick(titrant),
+        analyte: pick(analyte),
+        titrantMolarity: num(titrantMolarity),
+        analyteVolume: { value: num(analyteVolume.value), unit: analyteVolume.unit },
+        ...(mode === "concentration"
+          ? { titrantVolume: { value: num(titrantVolume.value), unit: titrantVolume.unit } }
+          : { analyteMolarity: num(analyteMolarity) }),
+      });
+    } catch (e) {
+      if (e instanceof SolutionError) return { error: e.message };
+      throw e;
+    }
+  }, [left, coeffs, titrant, analyte, mode, titrantMolarity, titrantVolume, analyteVolume, analyteMolarity]);
+
+  const ok = result && !("error" in result) ? result : null;
+  const options = left.map((s, i) => (
+    <option key={i} value={i}>
+      {formatSpecies({ ...s, coeff: 1 })}
+    </option>
+  ));
+
+  return (
+    <details className="p-4 border rounded-2xl border-sky-200 bg-sky-50/60 dark:border-sky-900 dark:bg-sky-950/30">
+      <summary className="cursor-pointer font-medium">Titration</summary>
+      <p className="mt-2 text-xs text-zinc-600 dark:text-zinc-400">
+        At the equivalence point titrant and analyte have reacted in the ratio of their
+        coefficients ({coeffs.left[titrant]} : {coeffs.left[analyte]}). Works for acid–base and
+        redox titrations alike.
+      </p>
+
+      <div className="mt-3 grid gap-2 text-sm">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs w-16">Titrant</span>
+          <select value={titrant} onChange={(e) => setTitrant(Number(e.target.value))} className={selectClass}>
+            {options}
+          </select>
+          <input
+            inputMode="decimal"
+            aria-label="Titrant molarity"
+            value={titrantMolarity}
+            onChange={(e) => setTitrantMolarity(e.target.value)}
+            className={inputClass}
+          />
+          <span className="text-xs text-zinc-500">M</span>
+          {mode === "concentration" && (
+            <>
+              <span className="text-xs text-zinc-500">end point at</span>
+              <VolumeInput field={titrantVolume} onChange={setTitrantVolume} label="Titrant volume" />
+            </>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs w-16">Analyte</span>
+          <select value={analyte} onChange={(e) => setAnalyte(Number(e.target.value))} className={selectClass}>
+            {options}
+          </select>
+          <VolumeInput field={analyteVolume} onChange={setAnalyteVolume} label="Analyte volume" />
+          {mode === "equivalence" && (
+            <>
+              <span className="text-xs text-zinc-500">at</span>
+              <input
+                inputMode="decimal"
+                aria-label="Analyte molarity"
+                value={analyteMolarity}
+                onChange={(e) => setAnalyteMolarity(e.target.value)}
+                className={inputClass}
+              />
+              <span className="text-xs text-zinc-500">M</span>
+            </>
+          )}
+        </div>
+        <div>
+          <select value={mode} onChange={(e) => setMode(e.target.value as Mode)} className={selectClass}>
+            <option value="concentration">Find the analyte concentration</option>
+            <option value="equivalence">Find the equivalence volume</option>
+          </select>
+        </div>
+      </div>
+
+      {ok && (
+        <div className="mt-3 grid gap-1 text-sm">
+          <div>
+            Analyte: <span className="font-mono">{fmt(ok.analyteMolarity)} M</span>{" "}
+            <span className="text-xs text-zinc-500">({fmt(ok.analyteMoles)} mol)</span>
+          </div>
+          <div>
+            Equivalence point:{" "}
+            <span className="font-mono">
+              {fmt(fromLiters(ok.equivalenceVolume, "mL"))} mL
+            </span>{" "}
+            <span className="text-xs text-zinc-500">
+              of titrant ({fmt(ok.titrantMoles)} mol), {fmt(fromLiters(ok.totalVolume, "mL"))} mL in total
+            </span>
+          </div>
+        </div>
+      )}
+      {result && "error" in result && (
+        <p className="mt-2 text-xs text-rose-700 dark:text-rose-300">{result.error}</p>
+      )}
+    </details>
+  );
+}
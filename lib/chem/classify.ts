@@ -0,0 +1,162 @@
+// lib/chem/classify.ts
+//
+// Textbook reaction types for an equation: synthesis, decomposition, single
+// and double replacement, combustion, neutralization, precipitation and
+// redox. One equation can fit several (2Mg + O2 -> 2MgO is a synthesis and a
+// redox reaction); each label comes with the reason it applies.
+
+import { countElementsInFormula, parseSpecies, type Species } from "./parser";
+import { analyzeOxidation, formatOxidationState, polyatomicIons } from "./oxidation";
+import { dissociate } from "./ionic";
+
+export type ReactionType =
+  | "combustion"
+  | "neutralization"
+  | "precipitation"
+  | "single-replacement"
+  | "double-replacement"
+  | "synthesis"
+  | "decomposition"
+  | "redox";
+
+export type ReactionClass = {
+  types: ReactionType[]; // most specific first
+  reasons: Array<{ type: ReactionType; text: string }>;
+};
+
+export const REACTION_TYPE_LABEL: Record<ReactionType, string> = {
+  combustion: "Combustion",
+  neutralization: "Acid–base neutralization",
+  precipitation: "Precipitation",
+  "single-replacement": "Single replacement",
+  "double-replacement": "Double replacement",
+  synthesis: "Synthesis",
+  decomposition: "Decomposition",
+  redox: "Redox",
+};
+
+// Products a hydrocarbon-type fuel burns to.
+const COMBUSTION_PRODUCTS = new Set(["CO2", "CO", "H2O", "SO2", "N2", "NO2"]);
+
+const elementsOf = (sp: Species) => Object.keys(countElementsInFormula(sp.formula));
+const isElement = (sp: Species) => !sp.charge && elementsOf(sp).length === 1;
+const isCompound = (sp: Species) => !sp.charge && elementsOf(sp).length > 1;
+
+function isAcid(sp: Species) {
+  const kind = dissociate(sp.formula, sp.state).kind;
+  return kind === "strong-acid" || kind === "weak-acid";
+}
+
+function isBase(sp: Species) {
+  const kind = dissociate(sp.formula, sp.state).kind;
+  return kind === "strong-base" || kind === "weak-base" ||
+    (!!polyatomicIons(sp.formula).OH && !isAcid(sp) && isCompound(sp));
+}
+
+const list = (items: string[]) =>
+  items.length < 2 ? items.join("") : `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+
+/**
+ * Reaction types for the species of an equation (raw strings as returned by
+ * splitEquation; coefficients and state labels are allowed).
+ */
+export function classifyReaction(leftRaw: string[], rightRaw: string[]): ReactionClass {
+  const left = leftRaw.map(parseSpecies);
+  const right = rightRaw.map(parseSpecies);
+  const reasons: ReactionClass["reasons"] = [];
+  const add = (type: ReactionType, text: string) => reasons.push({ type, text });
+  const names = (sps: Species[]) => list(sps.map((s) => s.formula));
+
+  // Combustion: a C/H fuel burning in O2 to oxides such as CO2 and H2O.
+  const oxygen = left.find((s) => s.formula === "O2");
+  const fuels = left.filter((s) => s !== oxygen);
+  if (
+    oxygen &&
+    fuels.length > 0 &&
+    fuels.every((s) => elementsOf(s).some((el) => el === "C" || el === "H")) &&
+    right.length > 0 &&
+    right.every((s) => COMBUSTION_PRODUCTS.has(s.formula))
+  ) {
+    add("combustion", `${names(fuels)} burns in O2, giving ${names(right)}.`);
+  }
+
+  // Neutralization: an acid and a base give water (or, with NH3, a salt).
+  const acids = left.filter(isAcid);
+  const bases = left.filter(isBase);
+  if (acids.length && bases.length && left.length === acids.length + bases.length) {
+    const water = right.some((s) => s.formula === "H2O");
+    if (water || bases.some((s) => s.formula === "NH3")) {
+      add(
+        "neutralization",
+        `${names(acids)} (acid) reacts with ${names(bases)} (base)${water ? " to form water and a salt" : " to form a salt"}.`
+      );
+    }
+  }
+
+  // Precipitation: dissolved ionic reactants give a product that is insoluble.
+  const dissolved = left.every((s) => {
+    const d = dissociate(s.formula, s.state);
+    return d.dissociates || d.kind === "ion";
+  });
+  const solids = right.filter((s) => {
+    if (s.state === "s") return isCompound(s);
+    return !s.state && dissociate(s.formula).kind === "insoluble-salt";
+  });
+  if (dissolved && solids.length) {
+    const rules = Array.from(
+      new Set(solids.map((s) => dissociate(s.formula)).filter((d) => d.kind === "insoluble-salt").map((d) => d.reason))
+    );
+    add("precipitation", [`Dissolved reactants form the insoluble solid ${names(solids)}.`, ...rules].join(" "));
+  }
+
+  // Replacement reactions.
+  if (left.length === 2 && right.length === 2) {
+    const le = left.filter(isElement);
+    const re = right.filter(isElement);
+    if (le.length === 1 && re.length === 1 && left.some(isCompound) && right.some(isCompound)) {
+      const [inEl, outEl] = [le[0], re[0]];
+      const compound = left.find(isCompound)!;
+      if (elementsOf(inEl)[0] !== elementsOf(outEl)[0]) {
+        add(
+          "single-replacement",
+          `${inEl.formula} takes the place of ${elementsOf(outEl)[0]} in ${compound.formula}, releasing ${outEl.formula}.`
+        );
+      }
+    } else if (left.every(isCompound) && right.every(isCompound)) {
+      // Each product takes elements from both reactants: partners were swapped.
+      const own = left.map((s) => new Set(elementsOf(s)));
+      const mixes = right.every((p) => own.every((set) => elementsOf(p).some((el) => set.has(el))));
+      if (mixes) {
+        add("double-replacement", `${names(left)} exchange partners to give ${names(right)}.`);
+      }
+    }
+  }
+
+  if (left.length >= 2 && right.length === 1) {
+    add("synthesis", `${names(left)} combine into a single product, ${right[0].formula}.`);
+  }
+  if (left.length === 1 && right.length >= 2) {
+    add("decomposition", `${left[0].formula} breaks down into ${names(right)}.`);
+  }
+
+  // Redox: some element changes oxidation number.
+  const redox = analyzeOxidation(left.map((s) => s.formula), right.map((s) => s.formula));
+  if (redox.isRedox) {
+    const seen = new Set<string>();
+    const parts: string[] = [];
+    for (const c of redox.changes) {
+      const key = `${c.element}:${c.kind}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      parts.push(
+        `${c.element} is ${c.kind} (${formatOxidationState(c.from.state)} → ${formatOxidationState(c.to.state)})`
+      );
+    }
+    add("redox", `${list(parts)}.`);
+  }
+
+  const order = Object.keys(REACTION_TYPE_LABEL) as ReactionType[];
+  reasons.sort((a, b) => order.indexOf(a.type) - order.indexOf(b.type));
+  return { types: reasons.map((r) => r.type), reasons };
+}
+
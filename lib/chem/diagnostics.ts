@@ -0,0 +1,181 @@
+// lib/chem/diagnostics.ts
+//
+// Typed parse errors/warnings with character offsets into the raw equation,
+// so the UI can point at the exact span instead of silently miscounting.
+
+import {
+  findArrows,
+  splitEquation,
+  splitSpeciesSpans,
+  tokenizeFormula,
+  type ArrowInfo,
+} from "./parser";
+import { isElementSymbol } from "./elements";
+
+export type DiagnosticCode =
+  | "missing-arrow"
+  | "multiple-arrows"
+  | "empty-side"
+  | "unbalanced-bracket"
+  | "unknown-element"
+  | "unknown-character"
+  | "dangling-multiplier"
+  | "ambiguous-charge";
+
+export type ParseDiagnostic = {
+  severity: "error" | "warning";
+  code: DiagnosticCode;
+  message: string;
+  start: number;
+  end: number; // exclusive
+};
+
+const OPENERS: Record<string, string> = { "(": ")", "[": "]", "{": "}" };
+
+// Diagnostics for a single formula; `offset` shifts spans into equation coordinates.
+export function formulaDiagnostics(formula: string, offset = 0): ParseDiagnostic[] {
+  const out: ParseDiagnostic[] = [];
+  const tokens = tokenizeFormula(formula);
+  const add = (
+    severity: ParseDiagnostic["severity"],
+    code: DiagnosticCode,
+    message: string,
+    start: number,
+    end: number
+  ) => out.push({ severity, code, message, start: offset + start, end: offset + end });
+
+  const open: Array<{ value: string; start: number }> = [];
+  tokens.forEach((t, i) => {
+    const prev = tokens[i - 1];
+    const next = tokens[i + 1];
+    const text = formula.slice(t.start, t.end);
+
+    if (t.type === "paren") {
+      if (OPENERS[t.value]) { open.push({ value: t.value, start: t.start }); return; }
+      const opener = open.pop();
+      if (!opener) {
+        add("error", "unbalanced-bracket", `Unmatched "${t.value}"`, t.start, t.end);
+      } else if (OPENERS[opener.value] !== t.value) {
+        add("error", "unbalanced-bracket",
+          `"${t.value}" does not close "${opener.value}"`, t.start, t.end);
+      }
+      return;
+    }
+
+    // "Fe3+" is Fe3 with charge 1+ as written; "Fe^3+" is what was meant.
+    if (t.type === "charge" && t.ambiguous === "digits") {
+      const head = formula.slice(0, t.start).trim();
+      const sign = formula.slice(t.start, t.end);
+      add("warning", "ambiguous-charge",
+        `"${head}${sign}" reads as ${head} with charge 1${sign}; write ${head.slice(0, -1)}^${head.slice(-1)}${sign} for a ${head.slice(-1)}${sign} ion`,
+        prev.end - 1, t.end);
+      return;
+    }
+    if (t.type === "charge" && t.ambiguous === "inside") {
+      add("warning", "ambiguous-charge",
+        `"${formula.slice(t.start, t.end)}" inside a formula is read as a charge; leave it out or put the charge at the end`,
+        t.start, t.end);
+      return;
+    }
+
+    if (t.type === "unknown") {
+      const message = /[a-z]/.test(t.value)
+        ? `"${t.value}" must follow a capital letter to form an element symbol`
+        : `Unexpected character "${t.value}"`;
+      add("error", "unknown-character", message, t.start, t.end);
+      return;
+    }
+
+    if (t.type === "elem" && !isElementSymbol(t.symbol)) {
+      add("error", "unknown-element", `"${t.symbol}" is not an element`,
+        t.start, t.start + t.symbol.length);
+    }
+
+    // "PO4 2": whitespace inside a token means digits drifted away from their element.
+    if ((t.type === "elem" || t.type === "num") && /\s/.test(text)) {
+      const gap = text.search(/\s/);
+      add("warning", "dangling-multiplier",
+        `Number separated from "${text.slice(0, gap)}" by a space`,
+        t.start + gap, t.end);
+    }
+
+    if (t.type === "num") {
+      const afterGroup = prev?.type === "paren" && !OPENERS[prev.value];
+      const hasTarget =
+        next?.type === "elem" || (next?.type === "paren" && !!OPENERS[next.value]);
+      if (!afterGroup && !hasTarget) {
+        add("warning", "dangling-multiplier",
+          `Multiplier ${t.value} has nothing to multiply`, t.start, t.end);
+      }
+    }
+  });
+
+  for (const o of open) {
+    add("error", "unbalanced-bracket", `"${o.value}" is never closed`, o.start, o.start + 1);
+  }
+  return out;
+}
+
+// `arrow` keeps what normalizeArrow throws away: the arrow kind and any
+// conditions written on it.
+export function parseEquation(eqn: string): {
+  equation: { left: string[]; right: string[] } | null;
+  arrow: ArrowInfo | null;
+  diagnostics: ParseDiagnostic[];
+} {
+  const diagnostics: ParseDiagnostic[] = [];
+  const arrows = findArrows(eqn);
+
+  if (arrows.length === 0) {
+    diagnostics.push({
+      severity: "error",
+      code: "missing-arrow",
+      message: "Could not find an arrow (->). Use the form: Reactants -> Products",
+      start: 0,
+      end: eqn.length,
+    });
+    return { equation: null, arrow: null, diagnostics };
+  }
+  if (arrows.length > 1) {
+    for (const a of arrows.slice(1)) {
+      diagnostics.push({
+        severity: "error",
+        code: "multiple-arrows",
+        message: "Only one arrow is allowed per equation",
+        start: a.start,
+        end: a.end,
+      });
+    }
+    return { equation: null, arrow: null, diagnostics };
+  }
+
+  const [arrow] = arrows;
+  const sides = [
+    { text: eqn.slice(0, arrow.start), offset: 0, empty: "No reactants before the arrow" },
+    { text: eqn.slice(arrow.end), offset: arrow.end, empty: "No products after the arrow" },
+  ];
+  const reactants = splitSpeciesSpans(sides[0].text, sides[0].offset).length;
+  for (const side of sides) {
+    const spans = splitSpeciesSpans(side.text, side.offset);
+    // Reactants with nothing after the arrow ask for predicted products.
+    if (!spans.length && (side === sides[0] || !reactants)) {
+      diagnostics.push({
+        severity: "error",
+        code: "empty-side",
+        message: side.empty,
+        start: arrow.start,
+        end: arrow.end,
+      });
+    }
+    for (const sp of spans) {
+      const lead = sp.text.match(/^\d+\s*/)?.[0].length ?? 0;
+      diagnostics.push(...formulaDiagnostics(sp.text.slice(lead), sp.start + lead));
+    }
+  }
+
+  return {
+    equation: splitEquation(eqn),
+    arrow: { kind: arrow.kind, conditions: arrow.conditions },
+    diagnostics,
+  };
+}
@@ -0,0 +1,184 @@
+// lib/chem/elements.ts
+//
+// Periodic table data. Weights are IUPAC standard (abridged) atomic weights;
+// for elements without stable isotopes the mass number of the longest-lived
+// isotope is used. Group is null for the lanthanides and actinides.
+
+export type ElementData = {
+  symbol: string;
+  name: string;
+  atomicNumber: number;
+  atomicWeight: number;
+  group: number | null;
+  period: number;
+  oxidationStates: number[];
+  electronegativity: number | null;
+};
+
+// [symbol, name, atomic weight, group, common oxidation states], in Z order.
+type Row = [string, string, number, number | null, number[]];
+
+const ROWS: Row[] = [
+  ["H", "Hydrogen", 1.008, 1, [-1, 1]],
+  ["He", "Helium", 4.0026, 18, []],
+  ["Li", "Lithium", 6.94, 1, [1]],
+  ["Be", "Beryllium", 9.0122, 2, [2]],
+  ["B", "Boron", 10.81, 13, [3]],
+  ["C", "Carbon", 12.011, 14, [-4, 2, 4]],
+  ["N", "Nitrogen", 14.007, 15, [-3, 3, 5]],
+  ["O", "Oxygen", 15.999, 16, [-2]],
+  ["F", "Fluorine", 18.998, 17, [-1]],
+  ["Ne", "Neon", 20.18, 18, []],
+  ["Na", "Sodium", 22.99, 1, [1]],
+  ["Mg", "Magnesium", 24.305, 2, [2]],
+  ["Al", "Aluminium", 26.982, 13, [3]],
+  ["Si", "Silicon", 28.085, 14, [-4, 4]],
+  ["P", "Phosphorus", 30.974, 15, [-3, 3, 5]],
+  ["S", "Sulfur", 32.06, 16, [-2, 2, 4, 6]],
+  ["Cl", "Chlorine", 35.45, 17, [-1, 1, 3, 5, 7]],
+  ["Ar", "Argon", 39.948, 18, []],
+  ["K", "Potassium", 39.098, 1, [1]],
+  ["Ca", "Calcium", 40.078, 2, [2]],
+  ["Sc", "Scandium", 44.956, 3, [3]],
+  ["Ti", "Titanium", 47.867, 4, [2, 3, 4]],
+  ["V", "Vanadium", 50.942, 5, [2, 3, 4, 5]],
+  ["Cr", "Chromium", 51.996, 6, [2, 3, 6]],
+  ["Mn", "Manganese", 54.938, 7, [2, 3, 4, 6, 7]],
+  ["Fe", "Iron", 55.845, 8, [2, 3]],
+  ["Co", "Cobalt", 58.933, 9, [2, 3]],
+  ["Ni", "Nickel", 58.693, 10, [2]],
+  ["Cu", "Copper", 63.546, 11, [1, 2]],
+  ["Zn", "Zinc", 65.38, 12, [2]],
+  ["Ga", "Gallium", 69.723, 13, [3]],
+  ["Ge", "Germanium", 72.63, 14, [-4, 2, 4]],
+  ["As", "Arsenic", 74.922, 15, [-3, 3, 5]],
+  ["Se", "Selenium", 78.971, 16, [-2, 4, 6]],
+  ["Br", "Bromine", 79.904, 17, [-1, 1, 3, 5]],
+  ["Kr", "Krypton", 83.798, 18, [2]],
+  ["Rb", "Rubidium", 85.468, 1, [1]],
+  ["Sr", "Strontium", 87.62, 2, [2]],
+  ["Y", "Yttrium", 88.906, 3, [3]],
+  ["Zr", "Zirconium", 91.224, 4, [4]],
+  ["Nb", "Niobium", 92.906, 5, [3, 5]],
+  ["Mo", "Molybdenum", 95.95, 6, [4, 6]],
+  ["Tc", "Technetium", 98, 7, [4, 7]],
+  ["Ru", "Ruthenium", 101.07, 8, [3, 4]],
+  ["Rh", "Rhodium", 102.91, 9, [3]],
+  ["Pd", "Palladium", 106.42, 10, [2, 4]],
+  ["Ag", "Silver", 107.87, 11, [1]],
+  ["Cd", "Cadmium", 112.41, 12, [2]],
+  ["In", "Indium", 114.82, 13, [3]],
+  ["Sn", "Tin", 118.71, 14, [-4, 2, 4]],
+  ["Sb", "Antimony", 121.76, 15, [-3, 3, 5]],
+  ["Te", "Tellurium", 127.6, 16, [-2, 4, 6]],
+  ["I", "Iodine", 126.9, 17, [-1, 1, 3, 5, 7]],
+  ["Xe", "Xenon", 131.29, 18, [2, 4, 6]],
+  ["Cs", "Caesium", 132.91, 1, [1]],
+  ["Ba", "Barium", 137.33, 2, [2]],
+  ["La", "Lanthanum", 138.91, null, [3]],
+  ["Ce", "Cerium", 140.12, null, [3, 4]],
+  ["Pr", "Praseodymium", 140.91, null, [3]],
+  ["Nd", "Neodymium", 144.24, null, [3]],
+  ["Pm", "Promethium", 145, null, [3]],
+  ["Sm", "Samarium", 150.36, null, [2, 3]],
+  ["Eu", "Europium", 151.96, null, [2, 3]],
+  ["Gd", "Gadolinium", 157.25, null, [3]],
+  ["Tb", "Terbium", 158.93, null, [3, 4]],
+  ["Dy", "Dysprosium", 162.5, null, [3]],
+  ["Ho", "Holmium", 164.93, null, [3]],
+  ["Er", "Erbium", 167.26, null, [3]],
+  ["Tm", "Thulium", 168.93, null, [3]],
+  ["Yb", "Ytterbium", 173.05, null, [2, 3]],
+  ["Lu", "Lutetium", 174.97, null, [3]],
+  ["Hf", "Hafnium", 178.49, 4, [4]],
+  ["Ta", "Tantalum", 180.95, 5, [5]],
+  ["W", "Tungsten", 183.84, 6, [4, 6]],
+  ["Re", "Rhenium", 186.21, 7, [4, 7]],
+  ["Os", "Osmium", 190.23, 8, [4, 8]],
+  ["Ir", "Iridium", 192.22, 9, [3, 4]],
+  ["Pt", "Platinum", 195.08, 10, [2, 4]],
+  ["Au", "Gold", 196.97, 11, [1, 3]],
+  ["Hg", "Mercury", 200.59, 12, [1, 2]],
+  ["Tl", "Thallium", 204.38, 13, [1, 3]],
+  ["Pb", "Lead", 207.2, 14, [2, 4]],
+  ["Bi", "Bismuth", 208.98, 15, [3, 5]],
+  ["Po", "Polonium", 209, 16, [2, 4]],
+  ["At", "Astatine", 210, 17, [-1, 1]],
+  ["Rn", "Radon", 222, 18, [2]],
+  ["Fr", "Francium", 223, 1, [1]],
+  ["Ra", "Radium", 226, 2, [2]],
+  ["Ac", "Actinium", 227, null, [3]],
+  ["Th", "Thorium", 232.04, null, [4]],
+  ["Pa", "Protactinium", 231.04, null, [5]],
+  ["U", "Uranium", 238.03, null, [3, 4, 5, 6]],
+  ["Np", "Neptunium", 237, null, [3, 4, 5, 6]],
+  ["Pu", "Plutonium", 244, null, [3, 4, 5, 6]],
+  ["Am", "Americium", 243, null, [3]],
+  ["Cm", "Curium", 247, null, [3]],
+  ["Bk", "Berkelium", 247, null, [3, 4]],
+  ["Cf", "Californium", 251, null, [3]],
+  ["Es", "Einsteinium", 252, null, [3]],
+  ["Fm", "Fermium", 257, null, [3]],
+  ["Md", "Mendelevium", 258, null, [2, 3]],
+  ["No", "Nobelium", 259, null, [2]],
+  ["Lr", "Lawrencium", 266, null, [3]],
+  ["Rf", "Rutherfordium", 267, 4, [4]],
+  ["Db", "Dubnium", 268, 5, [5]],
+  ["Sg", "Seaborgium", 269, 6, [6]],
+  ["Bh", "Bohrium", 270, 7, [7]],
+  ["Hs", "Hassium", 277, 8, [8]],
+  ["Mt", "Meitnerium", 278, 9, []],
+  ["Ds", "Darmstadtium", 281, 10, []],
+  ["Rg", "Roentgenium", 282, 11, []],
+  ["Cn", "Copernicium", 285, 12, [2]],
+  ["Nh", "Nihonium", 286, 13, []],
+  ["Fl", "Flerovium", 289, 14, []],
+  ["Mc", "Moscovium", 290, 15, []],
+  ["Lv", "Livermorium", 293, 16, []],
+  ["Ts", "Tennessine", 294, 17, []],
+  ["Og", "Oganesson", 294, 18, []],
+];
+
+// Pauling electronegativities in Z order; null where none is established
+// (noble gases He–Ar, superheavy elements). Missing trailing entries are null.
+const PAULING: Array<number | null> = [
+  2.20, null, 0.98, 1.57, 2.04, 2.55, 3.04, 3.44, 3.98, null,
+  0.93, 1.31, 1.61, 1.90, 2.19, 2.58, 3.16, null, 0.82, 1.00,
+  1.36, 1.54, 1.63, 1.66, 1.55, 1.83, 1.88, 1.91, 1.90, 1.65,
+  1.81, 2.01, 2.18, 2.55, 2.96, 3.00, 0.82, 0.95, 1.22, 1.33,
+  1.6, 2.16, 1.9, 2.2, 2.28, 2.20, 1.93, 1.69, 1.78, 1.96,
+  2.05, 2.1, 2.66, 2.60, 0.79, 0.89, 1.10, 1.12, 1.13, 1.14,
+  1.13, 1.17, 1.2, 1.2, 1.1, 1.22, 1.23, 1.24, 1.25, 1.1,
+  1.27, 1.3, 1.5, 2.36, 1.9, 2.2, 2.20, 2.28, 2.54, 2.00,
+  1.62, 2.33, 2.02, 2.0, 2.2, 2.2, 0.7, 0.9, 1.1, 1.3,
+  1.5, 1.38, 1.36, 1.28, 1.13, 1.28, 1.3, 1.3, 1.3, 1.3,
+  1.3, 1.3, 1.3,
+];
+
+// Last atomic number of each period.
+const PERIOD_ENDS = [2, 10, 18, 36, 54, 86, 118];
+
+export const ELEMENTS: ElementData[] = ROWS.map(
+  ([symbol, name, atomicWeight, group, oxidationStates], i) => ({
+    symbol,
+    name,
+    atomicNumber: i + 1,
+    atomicWeight,
+    group,
+    period: PERIOD_ENDS.findIndex((end) => i + 1 <= end) + 1,
+    oxidationStates,
+    electronegativity: PAULING[i] ?? null,
+  })
+);
+
+export const ELEMENT_SYMBOLS = ELEMENTS.map((e) => e.symbol);
+
+const BY_SYMBOL = new Map(ELEMENTS.map((e) => [e.symbol, e]));
+
+export function isElementSymbol(symbol: string) {
+  return BY_SYMBOL.has(symbol);
+}
+
+export function getElement(symbol: string): ElementData | undefined {
+  return BY_SYMBOL.get(symbol);
+}
@@ -0,0 +1,166 @@
+// lib/chem/empirical.ts
+//
+// Empirical and molecular formulas from analysis data: mass percentages, gram
+// amounts per element, or combustion analysis (CO2 and H2O collected from a
+// burned sample). Mole ratios are scaled by the smallest whole number that
+// brings every ratio within a tolerance of an integer, so 1 : 1.33 becomes
+// 3 : 4 instead of being rounded to 1 : 1.
+
+import { getElement } from "./elements";
+import { molarMass } from "./mass";
+
+export type ElementAmounts = Record<string, number>;
+
+export type FormulaOptions = {
+  // Largest distance from a whole number accepted after scaling.
+  tolerance?: number;
+  // Molar mass of the compound (g/mol), to get the molecular formula.
+  molarMass?: number;
+};
+
+export type EmpiricalResult = {
+  grams: ElementAmounts; // per element, as used
+  moles: ElementAmounts;
+  ratios: ElementAmounts; // moles divided by the smallest
+  multiplier: number; // whole number the ratios were scaled by
+  counts: ElementAmounts; // empirical subscripts
+  formula: string;
+  formulaMass: number;
+  molecular: { counts: ElementAmounts; formula: string; factor: number; formulaMass: number } | null;
+};
+
+export type CombustionData = {
+  sampleMass: number; // g of compound burned
+  co2Mass: number; // g of CO2 collected
+  h2oMass: number; // g of H2O collected
+};
+
+export class FormulaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FormulaError";
+  }
+}
+
+const DEFAULT_TOLERANCE = 0.1;
+const MAX_MULTIPLIER = 12;
+
+// Place in the IUPAC element sequence used to order formulas: noble gases,
+// then groups 1 to 17 (lanthanides and actinides with group 3), heavier
+// elements first within a group, and H between groups 15 and 16.
+function sequenceKey(el: string) {
+  const e = getElement(el);
+  if (!e || el === "H") return [15.5, 0];
+  return [e.group === 18 ? 0 : e.group ?? 3, -e.period];
+}
+
+// Carbon compounds in Hill order (C, H, then alphabetical); others in the
+// IUPAC sequence, as in NaCl, Fe2O3, NH3 and H2O.
+function writeFormula(counts: ElementAmounts) {
+  const els = Object.keys(counts).sort();
+  const byKey = (a: string, b: string) => {
+    const [ka, kb] = [sequenceKey(a), sequenceKey(b)];
+    return ka[0] - kb[0] || ka[1] - kb[1];
+  };
+  const order = "C" in counts
+    ? ["C", ...("H" in counts ? ["H"] : []), ...els.filter((e) => e !== "C" && e !== "H")]
+    : els.sort(byKey);
+  return order.map((el) => `${el}${counts[el] === 1 ? "" : counts[el]}`).join("");
+}
+
+// Smallest multiplier that makes every ratio a near-integer; if none does
+// within MAX_MULTIPLIER, the one with the smallest worst-case error.
+function wholeNumberMultiplier(ratios: number[], tolerance: number) {
+  let best = { k: 1, err: Infinity };
+  for (let k = 1; k <= MAX_MULTIPLIER; k++) {
+    const err = Math.max(...ratios.map((r) => Math.abs(r * k - Math.round(r * k))));
+    if (err <= tolerance) return k;
+    if (err < best.err) best = { k, err };
+  }
+  return best.k;
+}
+
+/**
+ * Empirical formula from the grams of each element in a sample (and the
+ * molecular formula when `options.molarMass` is given). Throws FormulaError
+ * for unknown symbols or amounts that are not positive.
+ */
+export function formulaFromMasses(grams: ElementAmounts, options: FormulaOptions = {}): EmpiricalResult {
+  const els = Object.keys(grams).filter((el) => grams[el] !== 0);
+  if (!els.length) throw new FormulaError("Enter an amount for at least one element.");
+  for (const el of els) {
+    if (!getElement(el)) throw new FormulaError(`Unknown element: ${el}`);
+    if (!(grams[el] > 0) || !Number.isFinite(grams[el])) {
+      throw new FormulaError(`The amount of ${el} must be a positive number.`);
+    }
+  }
+
+  const moles: ElementAmounts = {};
+  for (const el of els) moles[el] = grams[el] / getElement(el)!.atomicWeight;
+  const smallest = Math.min(...els.map((el) => moles[el]));
+  const ratios: ElementAmounts = {};
+  for (const el of els) ratios[el] = moles[el] / smallest;
+
+  const multiplier = wholeNumberMultiplier(els.map((el) => ratios[el]), options.tolerance ?? DEFAULT_TOLERANCE);
+  const counts: ElementAmounts = {};
+  for (const el of els) counts[el] = Math.max(1, Math.round(ratios[el] * multiplier));
+  const formula = writeFormula(counts);
+  const formulaMass = molarMass(formula);
+
+  let molecular: EmpiricalResult["molecular"] = null;
+  if (options.molarMass !== undefined) {
+    if (!(options.molarMass > 0)) throw new FormulaError("Molar mass must be a positive number.");
+    const exact = options.molarMass / formulaMass;
+    const factor = Math.round(exact);
+    // Measured molar masses are rarely exact; allow 5% either way.
+    if (factor < 1 || Math.abs(exact - factor) > 0.05 * factor) {
+      throw new FormulaError(
+        `A molar mass of ${options.molarMass} g/mol is not a whole-number multiple of ${formula} (${formulaMass.toFixed(2)} g/mol).`
+      );
+    }
+    const mCounts: ElementAmounts = {};
+    for (const el of els) mCounts[el] = counts[el] * factor;
+    const mFormula = writeFormula(mCounts);
+    molecular = { counts: mCounts, formula: mFormula, factor, formulaMass: molarMass(mFormula) };
+  }
+
+  return { grams: { ...grams }, moles, ratios, multiplier, counts, formula, formulaMass, molecular };
+}
+
+/**
+ * Empirical formula from mass percentages. Percentages are read as grams in a
+ * 100 g sample; they should add up to about 100.
+ */
+export function formulaFromPercent(percent: ElementAmounts, options: FormulaOptions = {}): EmpiricalResult {
+  const total = Object.values(percent).reduce((s, p) => s + p, 0);
+  if (Math.abs(total - 100) > 2) {
+    throw new FormulaError(`The percentages add up to ${Number(total.toFixed(2))}%, not 100%.`);
+  }
+  return formulaFromMasses(percent, options);
+}
+
+/**
+ * Empirical formula of a C/H(/O) compound from combustion analysis. All C
+ * ends up in CO2 and all H in H2O; whatever sample mass is left over is
+ * taken to be oxygen.
+ */
+export function formulaFromCombustion(data: CombustionData, options: FormulaOptions = {}): EmpiricalResult {
+  const { sampleMass, co2Mass, h2oMass } = data;
+  if (![sampleMass, co2Mass, h2oMass].every((x) => x >= 0 && Number.isFinite(x)) || !(sampleMass > 0)) {
+    throw new FormulaError("Enter the sample mass and the masses of CO2 and H2O collected.");
+  }
+  const C = (co2Mass * getElement("C")!.atomicWeight) / molarMass("CO2");
+  const H = (2 * h2oMass * getElement("H")!.atomicWeight) / molarMass("H2O");
+  const O = sampleMass - C - H;
+  // Allow for rounding in the measured masses before calling it an error.
+  if (O < -0.01 * sampleMass) {
+    throw new FormulaError(
+      `The CO2 and H2O hold ${(C + H).toFixed(4)} g of C and H, more than the ${sampleMass} g sample.`
+    );
+  }
+  const grams: ElementAmounts = {};
+  if (C > 0) grams.C = C;
+  if (H > 0) grams.H = H;
+  if (O > 0.01 * sampleMass) grams.O = O;
+  return formulaFromMasses(grams, options);
+}
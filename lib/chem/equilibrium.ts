@@ -0,0 +1,165 @@
+// lib/chem/equilibrium.ts
+//
+// Equilibrium constant expressions and ICE tables for a balanced equation.
+// Pure solids and liquids are left out of K by their state labels; Kp also
+// leaves out dissolved species. Species without a state are assumed to count.
+
+import type { PhysicalState } from "./parser";
+
+export type EquilibriumSpecies = { formula: string; coeff: number; state?: PhysicalState };
+
+export type KType = "Kc" | "Kp";
+
+export type ExpressionTerm = { formula: string; power: number };
+
+export type EquilibriumExpression = {
+  type: KType;
+  numerator: ExpressionTerm[]; // products
+  denominator: ExpressionTerm[]; // reactants
+  excluded: string[]; // formulas left out because of their state
+  text: string; // "[NH3]^2 / ([N2][H2]^3)"
+};
+
+export type IceRow = {
+  formula: string;
+  side: "left" | "right";
+  nu: number; // signed coefficient: reactants negative, products positive
+  initial: number;
+  change: number;
+  equilibrium: number;
+};
+
+export type IceResult = {
+  type: KType;
+  K: number;
+  x: number; // extent of the shift, in M or atm per unit coefficient
+  rows: IceRow[];
+  Q: number; // quotient at the computed equilibrium (≈ K)
+};
+
+export class EquilibriumError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EquilibriumError";
+  }
+}
+
+function counts(sp: EquilibriumSpecies, type: KType) {
+  if (sp.state === "s" || sp.state === "l") return false;
+  return type === "Kc" || sp.state !== "aq";
+}
+
+function termText({ formula, power }: ExpressionTerm, type: KType) {
+  const base = type === "Kc" ? `[${formula}]` : `P(${formula})`;
+  return power === 1 ? base : `${base}^${power}`;
+}
+
+function productText(terms: ExpressionTerm[], type: KType) {
+  return terms.map((t) => termText(t, type)).join(type === "Kc" ? "" : "·");
+}
+
+/**
+ * Kc or Kp expression from balanced coefficients: products over reactants,
+ * each raised to its coefficient.
+ */
+export function equilibriumExpression(
+  reactants: EquilibriumSpecies[],
+  products: EquilibriumSpecies[],
+  type: KType = "Kc"
+): EquilibriumExpression {
+  const terms = (list: EquilibriumSpecies[]) =>
+    list.filter((sp) => counts(sp, type)).map((sp) => ({ formula: sp.formula, power: sp.coeff }));
+  const numerator = terms(products);
+  const denominator = terms(reactants);
+  const excluded = [...reactants, ...products].filter((sp) => !counts(sp, type)).map((sp) => sp.formula);
+
+  const top = numerator.length ? productText(numerator, type) : "1";
+  const bottom = productText(denominator, type);
+  const text = !denominator.length
+    ? top
+    : `${top} / ${denominator.length > 1 ? `(${bottom})` : bottom}`;
+  return { type, numerator, denominator, excluded, text };
+}
+
+const BISECTIONS = 200;
+const MAX_DOUBLINGS = 1000;
+
+/**
+ * Solves the ICE table for the extent x at which Q = K. `initial` holds the
+ * starting concentration (Kc) or partial pressure (Kp) of every species, in
+ * equation order; values for species left out of K are ignored. ln Q is
+ * strictly increasing in x, so bisection between the limits where some
+ * species would go negative always converges.
+ */
+export function solveIce(
+  reactants: EquilibriumSpecies[],
+  products: EquilibriumSpecies[],
+  initial: { left: number[]; right: number[] },
+  K: number,
+  type: KType = "Kc"
+): IceResult {
+  if (!(K > 0) || !Number.isFinite(K)) throw new EquilibriumError("K must be a positive number.");
+  if ([...reactants, ...products].some((sp) => !(sp.coeff > 0))) {
+    throw new EquilibriumError("Balance the equation first: every coefficient must be positive.");
+  }
+
+  const rows: IceRow[] = [];
+  for (const [list, start, sign, side] of [
+    [reactants, initial.left, -1, "left"],
+    [products, initial.right, 1, "right"],
+  ] as const) {
+    list.forEach((sp, i) => {
+      if (!counts(sp, type)) return;
+      const c0 = start[i] ?? 0;
+      if (!(c0 >= 0) || !Number.isFinite(c0)) {
+        throw new EquilibriumError(`Initial amount of ${sp.formula} must be zero or positive.`);
+      }
+      rows.push({ formula: sp.formula, side, nu: sign * sp.coeff, initial: c0, change: 0, equilibrium: c0 });
+    });
+  }
+  if (!rows.length) throw new EquilibriumError("No species take part in the equilibrium expression.");
+
+  // x may run down until a product is used up, and up until a reactant is.
+  let lo = -Infinity;
+  let hi = Infinity;
+  for (const r of rows) {
+    const limit = -r.initial / r.nu;
+    if (r.nu > 0) lo = Math.max(lo, limit);
+    else hi = Math.min(hi, limit);
+  }
+  if (!(lo < hi)) {
+    throw new EquilibriumError(
+      "The mixture cannot shift either way: a reactant and a product both start at zero."
+    );
+  }
+
+  const lnK = Math.log(K);
+  const f = (x: number) =>
+    rows.reduce((s, r) => s + r.nu * Math.log(r.initial + r.nu * x), 0) - lnK;
+
+  // Open-ended sides (nothing there to run out) get a finite bracket.
+  for (let step = 1, i = 0; lo === -Infinity; step *= 2, i++) {
+    if (i > MAX_DOUBLINGS) throw new EquilibriumError("Could not bracket the equilibrium.");
+    if (f(hi - step) < 0) lo = hi - step;
+  }
+  for (let step = 1, i = 0; hi === Infinity; step *= 2, i++) {
+    if (i > MAX_DOUBLINGS) throw new EquilibriumError("Could not bracket the equilibrium.");
+    if (f(lo + step) > 0) hi = lo + step;
+  }
+
+  for (let i = 0; i < BISECTIONS && hi - lo > 0; i++) {
+    const mid = (lo + hi) / 2;
+    if (mid === lo || mid === hi) break;
+    if (f(mid) < 0) lo = mid;
+    else hi = mid;
+  }
+  const x = (lo + hi) / 2;
+
+  let Q = 1;
+  for (const r of rows) {
+    r.change = r.nu * x;
+    r.equilibrium = Math.max(0, r.initial + r.change);
+    Q *= r.equilibrium ** r.nu;
+  }
+  return { type, K, x, rows, Q };
+}
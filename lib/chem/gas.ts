@@ -0,0 +1,103 @@
+// lib/chem/gas.ts
+//
+// Ideal-gas conversions between moles and volume (PV = nRT) with unit-aware
+// temperature, pressure and volume. STP here is the textbook 0 °C and 1 atm
+// (22.41 L/mol); SATP is 25 °C and 100 kPa (24.79 L/mol).
+
+import type { PhysicalState } from "./parser";
+
+export type VolumeUnit = "L" | "mL" | "m3";
+export type PressureUnit = "atm" | "kPa" | "mmHg";
+export type TemperatureUnit = "K" | "°C";
+
+export type GasConditions = {
+  temperature: { value: number; unit: TemperatureUnit };
+  pressure: { value: number; unit: PressureUnit };
+};
+
+export const VOLUME_UNITS: VolumeUnit[] = ["L", "mL", "m3"];
+export const VOLUME_UNIT_LABEL: Record<VolumeUnit, string> = { L: "L", mL: "mL", m3: "m³" };
+export const PRESSURE_UNITS: PressureUnit[] = ["atm", "kPa", "mmHg"];
+export const TEMPERATURE_UNITS: TemperatureUnit[] = ["K", "°C"];
+
+// L·atm/(mol·K)
+export const GAS_CONSTANT = 0.082057366080960;
+
+export const STP: GasConditions = {
+  temperature: { value: 273.15, unit: "K" },
+  pressure: { value: 1, unit: "atm" },
+};
+
+export const SATP: GasConditions = {
+  temperature: { value: 298.15, unit: "K" },
+  pressure: { value: 100, unit: "kPa" },
+};
+
+export class GasError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GasError";
+  }
+}
+
+const LITERS_PER: Record<VolumeUnit, number> = { L: 1, mL: 1e-3, m3: 1e3 };
+const ATM_PER: Record<PressureUnit, number> = { atm: 1, kPa: 1 / 101.325, mmHg: 1 / 760 };
+
+export function isVolumeUnit(unit: string): unit is VolumeUnit {
+  return unit in LITERS_PER;
+}
+
+export function toKelvin({ value, unit }: GasConditions["temperature"]): number {
+  const T = unit === "°C" ? value + 273.15 : value;
+  if (!(T > 0) || !Number.isFinite(T)) throw new GasError("Temperature must be above absolute zero.");
+  return T;
+}
+
+export function toAtm({ value, unit }: GasConditions["pressure"]): number {
+  if (!(value > 0) || !Number.isFinite(value)) throw new GasError("Pressure must be a positive number.");
+  return value * ATM_PER[unit];
+}
+
+export function toLiters(value: number, unit: VolumeUnit): number {
+  return value * LITERS_PER[unit];
+}
+
+export function fromLiters(liters: number, unit: VolumeUnit): number {
+  return liters / LITERS_PER[unit];
+}
+
+// Volume of one mole of ideal gas, in L/mol.
+export function molarVolume(conditions: GasConditions): number {
+  return (GAS_CONSTANT * toKelvin(conditions.temperature)) / toAtm(conditions.pressure);
+}
+
+// n = PV / RT
+export function gasMoles(volume: { value: number; unit: VolumeUnit }, conditions: GasConditions): number {
+  if (!(volume.value >= 0) || !Number.isFinite(volume.value)) {
+    throw new GasError("Volume must be a non-negative number.");
+  }
+  return toLiters(volume.value, volume.unit) / molarVolume(conditions);
+}
+
+// V = nRT / P
+export function gasVolume(moles: number, conditions: GasConditions, unit: VolumeUnit = "L"): number {
+  return fromLiters(moles * molarVolume(conditions), unit);
+}
+
+function gcd(a: number, b: number): number {
+  while (b) [a, b] = [b, a % b];
+  return a;
+}
+
+/**
+ * Volume ratio of the gases in a balanced equation. At the same temperature
+ * and pressure equal volumes hold equal moles, so the ratio is the ratio of
+ * coefficients of the (g) species, in lowest terms.
+ */
+export function gasVolumeRatios(
+  species: Array<{ formula: string; coeff: number; state?: PhysicalState }>
+): Array<{ formula: string; ratio: number }> {
+  const gases = species.filter((s) => s.state === "g");
+  const g = gases.reduce((a, s) => gcd(a, s.coeff), 0) || 1;
+  return gases.map((s) => ({ formula: s.formula, ratio: s.coeff / g }));
+}
@@ -0,0 +1,182 @@
+// lib/chem/hints.ts
+//
+// Hints that follow the inspection method as it is taught: balance elements
+// found in a single species on each side first, move polyatomic ions that
+// survive the reaction as one unit, leave H and O (and finally charge) for
+// last, and allow a fractional coefficient on a diatomic element before
+// clearing it. Each hint comes in three levels of detail: which element, which
+// species, and what coefficient.
+
+import { countElementsInFormula, formulaCharge } from "./parser";
+import { polyatomicIons } from "./oxidation";
+import type { Side, SpeciesRef } from "./solver";
+
+export type HintLevel = 1 | 2 | 3;
+
+export type Hint = {
+  level: HintLevel;
+  text: string;
+  piece?: string; // element, intact polyatomic ion, or CHARGE
+  species?: SpeciesRef;
+  // `multiplyAllBy` is set when the coefficient comes out fractional.
+  coefficient?: { value: number; text: string; multiplyAllBy?: number };
+  done?: boolean;
+};
+
+type Coeffs = { left: number[]; right: number[] };
+type PieceCounts = Record<string, number>;
+
+const CHARGE = "charge";
+
+function gcd(a: number, b: number): number {
+  a = Math.abs(a);
+  b = Math.abs(b);
+  while (b) [a, b] = [b, a % b];
+  return a || 1;
+}
+
+// Per-species counts of the things being balanced: elements, plus polyatomic
+// ions that appear on both sides and hold every atom of their central element.
+function pieceCounts(left: string[], right: string[]) {
+  const all = [...left, ...right];
+  const full = all.map((f) => countElementsInFormula(f));
+  const ions = all.map(polyatomicIons);
+  const onSide = (from: number, to: number, key: string) =>
+    ions.slice(from, to).some((m) => m[key]);
+
+  const units = Array.from(new Set(ions.flatMap(Object.keys))).filter((key) => {
+    if (!onSide(0, left.length, key) || !onSide(left.length, all.length, key)) return false;
+    const comp = countElementsInFormula(key);
+    const core = Object.keys(comp).filter((el) => el !== "H" && el !== "O");
+    return core.length > 0 &&
+      all.every((_, i) => core.every((el) => (full[i][el] || 0) === (ions[i][key] || 0) * comp[el]));
+  });
+
+  const counts: PieceCounts[] = all.map((f, i) => {
+    const c: PieceCounts = { ...full[i] };
+    for (const key of units) {
+      const n = ions[i][key] || 0;
+      if (!n) continue;
+      for (const [el, k] of Object.entries(countElementsInFormula(key))) c[el] -= n * k;
+      c[key] = n;
+    }
+    for (const el of Object.keys(c)) if (!c[el]) delete c[el];
+    const q = formulaCharge(f);
+    if (q) c[CHARGE] = q;
+    return c;
+  });
+  return { counts, units: new Set(units), elemental: full.map((c) => Object.keys(c).length === 1) };
+}
+
+/**
+ * Next inspection-method step for the current coefficients. Level 1 names the
+ * element (or ion) to work on, level 2 the species whose coefficient to
+ * change, level 3 the coefficient itself.
+ */
+export function inspectionHint(
+  left: string[],
+  right: string[],
+  coeffs: Coeffs,
+  level: HintLevel = 1
+): Hint {
+  const { counts, units, elemental } = pieceCounts(left, right);
+  const n = left.length;
+  const coeff = (i: number) => (i < n ? coeffs.left[i] : coeffs.right[i - n]) ?? 1;
+  const total = (p: string, from: number, to: number) =>
+    counts.slice(from, to).reduce((s, c, k) => s + (c[p] || 0) * coeff(from + k), 0);
+  const holders = (p: string, from: number, to: number) =>
+    counts.slice(from, to).filter((c) => c[p]).length;
+
+  // Teaching order; ties keep the order pieces first appear in.
+  const pieces = Array.from(new Set(counts.flatMap(Object.keys)));
+  const rank = (p: string) =>
+    p === CHARGE ? 4 : p === "O" ? 3 : p === "H" ? 2
+      : holders(p, 0, n) === 1 && holders(p, n, counts.length) === 1 ? 0 : 1;
+  const order = pieces.map((p, i) => ({ p, i })).sort((a, b) => rank(a.p) - rank(b.p) || a.i - b.i).map((x) => x.p);
+
+  const at = order.findIndex((p) => total(p, 0, n) !== total(p, n, counts.length));
+  if (at < 0) return { level, text: "Already balanced ✔", done: true };
+  const piece = order[at];
+  const lhs = total(piece, 0, n);
+  const rhs = total(piece, n, counts.length);
+
+  if (level === 1) {
+    const where = piece === CHARGE ? "" : ` (${lhs} on the left, ${rhs} on the right)`;
+    const why =
+      piece === CHARGE
+        ? "Atoms are balanced, but charge is not — adjust ions or electrons."
+        : units.has(piece)
+          ? `Treat ${piece} as a single unit — it stays intact from reactants to products. Balance it next${where}.`
+          : rank(piece) === 0
+            ? `Balance ${piece} next — it appears in only one species on each side${where}.`
+            : piece === "H" || piece === "O"
+              ? `Now balance ${piece}; H and O are left for last${where}.`
+              : `Balance ${piece} next${where}.`;
+    return { level, piece, text: why };
+  }
+
+  // Candidate species: the coefficient that would balance `piece` on its own,
+  // preferring species that do not disturb pieces already balanced, then free
+  // elements (O2, H2…) that contain nothing else, then whole-number answers.
+  const earlier = order.slice(0, at);
+  const candidates = counts
+    .map((c, i) => {
+      if (!c[piece]) return null;
+      const [from, to] = i < n ? [0, n] : [n, counts.length];
+      const other = i < n ? rhs : lhs;
+      const num = other - (total(piece, from, to) - c[piece] * coeff(i));
+      const den = c[piece];
+      const disturbs = earlier.filter((p) => c[p]).length;
+      return { i, num, den, disturbs };
+    })
+    .filter((c) => c && c.num / c.den > 0)
+    .sort((a, b) =>
+      a.disturbs - b.disturbs ||
+      Number(elemental[b.i]) - Number(elemental[a.i]) ||
+      Number(a.num % a.den !== 0) - Number(b.num % b.den !== 0) ||
+      a.i - b.i
+    );
+  if (!candidates.length) {
+    return {
+      level,
+      piece,
+      text: `No single coefficient change balances ${piece === CHARGE ? "charge" : piece}; check the species in the equation.`,
+    };
+  }
+
+  const best = candidates[0];
+  const side: Side = best.i < n ? "left" : "right";
+  const species: SpeciesRef = { side, index: side === "left" ? best.i : best.i - n };
+  const formula = side === "left" ? left[species.index] : right[species.index];
+  const sideName = side === "left" ? "reactant" : "product";
+
+  if (level === 2) {
+    const note = elemental[best.i] ? ` — it contains only ${piece}, so nothing else changes` : "";
+    return { level, piece, species, text: `Change the coefficient of ${formula} on the ${sideName} side${note}.` };
+  }
+
+  const g = gcd(best.num, best.den) * Math.sign(best.den);
+  const num = best.num / g;
+  const den = best.den / g;
+  if (den === 1) {
+    return {
+      level,
+      piece,
+      species,
+      coefficient: { value: num, text: `${num}` },
+      text: `Set the coefficient of ${formula} to ${num}.`,
+    };
+  }
+  const frac = `${num}/${den}`;
+  return {
+    level,
+    piece,
+    species,
+    coefficient: { value: num / den, text: frac, multiplyAllBy: den },
+    text:
+      (elemental[best.i]
+        ? `Use the fraction ${frac} for ${formula} for now`
+        : `${formula} would need ${frac}`) +
+      `, then multiply every coefficient by ${den} to clear it (${formula} becomes ${num}).`,
+  };
+}
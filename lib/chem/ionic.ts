@@ -0,0 +1,301 @@
+// lib/chem/ionic.ts
+//
+// Molecular → complete ionic → net ionic equations. Each species is sorted
+// into strong/weak acid or base, soluble or insoluble salt, molecule, element
+// or ion using the common solubility rules; strong electrolytes in solution
+// are split into their ions, spectator ions are cancelled, and what is left is
+// reduced to the smallest whole numbers.
+
+import { countElementsInFormula, formulaCharge, type PhysicalState } from "./parser";
+import { assignOxidationStates, polyatomicCharge, polyatomicIons } from "./oxidation";
+import { getElement } from "./elements";
+import { solveEquation } from "./solver";
+
+export type ElectrolyteKind =
+  | "strong-acid"
+  | "weak-acid"
+  | "strong-base"
+  | "weak-base"
+  | "soluble-salt"
+  | "insoluble-salt"
+  | "molecular"
+  | "element"
+  | "ion";
+
+export type Dissociation = {
+  formula: string;
+  kind: ElectrolyteKind;
+  dissociates: boolean;
+  ions: Array<{ formula: string; count: number }>; // empty unless it dissociates
+  reason: string;
+};
+
+export type IonicTerm = { coeff: number; formula: string; state?: PhysicalState };
+export type IonicSide = { left: IonicTerm[]; right: IonicTerm[] };
+
+export type IonicEquations = {
+  molecular: IonicSide;
+  complete: IonicSide;
+  net: IonicSide | null; // null when every species cancels
+  spectators: string[];
+  species: Dissociation[]; // reactants then products
+};
+
+export class IonicError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IonicError";
+  }
+}
+
+const NONMETALS = new Set([
+  "H", "He", "B", "C", "N", "O", "F", "Ne", "Si", "P", "S", "Cl", "Ar",
+  "Ge", "As", "Se", "Br", "Kr", "Te", "I", "Xe", "At", "Rn",
+]);
+
+const STRONG_ACID_ANIONS = new Set(["Cl", "Br", "I", "NO3", "ClO4", "ClO3", "SO4"]);
+const STRONG_BASE_CATIONS = new Set(["Ca", "Sr", "Ba"]);
+const WEAK_BASES = new Set(["NH3"]);
+
+function gcd(a: number, b: number): number {
+  while (b) [a, b] = [b, a % b];
+  return a;
+}
+
+// "Na+", "Ca^2+", "PO4^3-"
+function ionFormula(base: string, charge: number) {
+  const sign = charge > 0 ? "+" : "-";
+  const q = Math.abs(charge);
+  return q === 1 ? `${base}${sign}` : `${base}^${q}${sign}`;
+}
+
+// `base` is the symbol or polyatomic ion ("Ca", "NO3", "Hg2"), `element` the
+// symbol of a monatomic ion.
+export type Ion = { base: string; charge: number; count: number; element?: string };
+
+const isGroup = (el: string | undefined, group: number) =>
+  !!el && el !== "H" && getElement(el)?.group === group;
+
+// Solubility of the salt of `cation` and `anion`, with the rule that decides it.
+function solubility(cation: Ion, anion: Ion): { soluble: boolean; rule: string } {
+  const el = cation.element;
+  const is = (...symbols: string[]) => !!el && symbols.includes(el);
+  const mercuryI = el === "Hg" && cation.charge === 2 && cation.base === "Hg2";
+  if (isGroup(el, 1) || cation.base === "NH4") {
+    return { soluble: true, rule: "Group 1 and ammonium salts are soluble." };
+  }
+  switch (anion.base) {
+    case "NO3":
+    case "CH3COO":
+    case "C2H3O2":
+    case "ClO4":
+    case "ClO3":
+      return { soluble: true, rule: "Nitrates, acetates, chlorates and perchlorates are soluble." };
+    case "Cl":
+    case "Br":
+    case "I":
+      return is("Ag", "Pb") || mercuryI || (el === "Cu" && cation.charge === 1)
+        ? { soluble: false, rule: "Chlorides, bromides and iodides of Ag+, Pb2+, Cu+ and Hg2^2+ are insoluble." }
+        : { soluble: true, rule: "Chlorides, bromides and iodides are soluble." };
+    case "SO4":
+      return is("Ba", "Sr", "Ca", "Pb", "Ag") || mercuryI
+        ? { soluble: false, rule: "Sulfates of Ba2+, Sr2+, Ca2+, Pb2+, Ag+ and Hg2^2+ are insoluble." }
+        : { soluble: true, rule: "Sulfates are soluble." };
+    case "F":
+      return is("Mg", "Ca", "Sr", "Ba", "Pb")
+        ? { soluble: false, rule: "Fluorides of Mg2+, Ca2+, Sr2+, Ba2+ and Pb2+ are insoluble." }
+        : { soluble: true, rule: "Fluorides are soluble." };
+    case "OH":
+      return is("Sr", "Ba")
+        ? { soluble: true, rule: "Hydroxides of Sr2+ and Ba2+ are soluble." }
+        : { soluble: false, rule: "Hydroxides are insoluble except with group 1, NH4+, Sr2+ and Ba2+." };
+    case "S":
+      return isGroup(el, 2)
+        ? { soluble: true, rule: "Sulfides of group 2 metals are soluble." }
+        : { soluble: false, rule: "Sulfides are insoluble except with groups 1 and 2 and NH4+." };
+    case "O":
+    case "CO3":
+    case "PO4":
+    case "SO3":
+    case "CrO4":
+    case "C2O4":
+    case "AsO4":
+      return { soluble: false, rule: "Oxides, carbonates, phosphates, sulfites, chromates and oxalates are insoluble except with group 1 and NH4+." };
+    default:
+      return { soluble: true, rule: "No solubility rule covers this pair; treated as soluble." };
+  }
+}
+
+/**
+ * Splits an ionic formula into exactly one kind of cation and one kind of
+ * anion ("Ca3(PO4)2" → 3 Ca 2+, 2 PO4 3−), or returns null for anything that
+ * does not fit that shape. Acids count, with H+ as the cation.
+ */
+export function ionPair(formula: string): { cation: Ion; anion: Ion } | null {
+  let ox: Record<string, number>;
+  try {
+    ox = assignOxidationStates(formula);
+  } catch {
+    return null;
+  }
+  const left = { ...countElementsInFormula(formula) };
+  const found: Ion[] = [];
+  for (const [key, n] of Object.entries(polyatomicIons(formula))) {
+    for (const [el, k] of Object.entries(countElementsInFormula(key))) left[el] -= k * n;
+    found.push({ base: key, charge: polyatomicCharge(key)!, count: n });
+  }
+  for (const [el, n] of Object.entries(left)) {
+    if (!n) continue;
+    const q = ox[el];
+    if (n < 0 || !Number.isInteger(q) || q === 0) return null;
+    // Mercury(I) is the dimer Hg2^2+.
+    if (el === "Hg" && q === 1) found.push({ base: "Hg2", charge: 2, count: n / 2, element: el });
+    else found.push({ base: el, charge: q, count: n, element: el });
+  }
+  const cations = found.filter((i) => i.charge > 0);
+  const anions = found.filter((i) => i.charge < 0);
+  if (cations.length !== 1 || anions.length !== 1) return null;
+  const [cation] = cations;
+  const [anion] = anions;
+  if (cation.element && NONMETALS.has(cation.element)) {
+    // Hydrogen is a cation only in acids: written H-first (HCl, H2SO4), or
+    // after a polyatomic anion (CH3COOH).
+    const acidH = formula.startsWith("H") || (anion.count === 1 && formula === `${anion.base}H`);
+    if (cation.element !== "H" || !acidH || anion.base === "O") return null;
+  }
+  return { cation, anion };
+}
+
+/**
+ * Neutral formula for a cation and an anion, with the smallest whole-number
+ * ratio: Ca 2+ and PO4 3− give "Ca3(PO4)2".
+ */
+export function compoundFormula(
+  cation: Pick<Ion, "base" | "charge">,
+  anion: Pick<Ion, "base" | "charge">
+): string {
+  const g = gcd(cation.charge, -anion.charge);
+  const part = (base: string, n: number) =>
+    n === 1 ? base : polyatomicCharge(base) !== undefined ? `(${base})${n}` : `${base}${n}`;
+  return part(cation.base, -anion.charge / g) + part(anion.base, cation.charge / g);
+}
+
+/**
+ * How a species behaves in water, and the ions it splits into when it is a
+ * strong electrolyte. A written (s), (l) or (g) keeps the species whole; a
+ * written (aq) overrides the solubility rules for salts.
+ */
+export function dissociate(formula: string, state?: PhysicalState): Dissociation {
+  const base = { formula, dissociates: false, ions: [] as Dissociation["ions"] };
+  if (formulaCharge(formula)) return { ...base, kind: "ion", reason: "Already an ion." };
+
+  let counts: Record<string, number>;
+  try {
+    counts = countElementsInFormula(formula, { strict: true });
+  } catch {
+    return { ...base, kind: "molecular", reason: "Unknown formula; kept as written." };
+  }
+  if (Object.keys(counts).length === 1) return { ...base, kind: "element", reason: "Free element." };
+  if (WEAK_BASES.has(formula)) {
+    return { ...base, kind: "weak-base", reason: "Weak base; stays mostly as molecules." };
+  }
+
+  const pair = /[·.*]/.test(formula) ? null : ionPair(formula);
+  if (!pair) return { ...base, kind: "molecular", reason: "Molecular compound; not split into ions." };
+  const { cation, anion } = pair;
+  const ions = [
+    { formula: ionFormula(cation.base, cation.charge), count: cation.count },
+    { formula: ionFormula(anion.base, anion.charge), count: anion.count },
+  ];
+  const kept = state === "s" || state === "l" || state === "g";
+  const split = (kind: ElectrolyteKind, reason: string): Dissociation =>
+    kept
+      ? { ...base, kind, reason: `${reason} Written as (${state}), so kept whole.` }
+      : { ...base, kind, dissociates: true, ions, reason };
+
+  if (cation.element === "H") {
+    return STRONG_ACID_ANIONS.has(anion.base)
+      ? split("strong-acid", "Strong acid; fully ionized.")
+      : { ...base, kind: "weak-acid", reason: "Weak acid; stays mostly as molecules." };
+  }
+  if (anion.base === "OH" && (isGroup(cation.element, 1) || STRONG_BASE_CATIONS.has(cation.element!))) {
+    return split("strong-base", "Strong base; fully dissociated.");
+  }
+  const { soluble, rule } = solubility(cation, anion);
+  if (soluble) return split("soluble-salt", rule);
+  if (state === "aq") {
+    return { ...base, kind: "soluble-salt", dissociates: true, ions, reason: `${rule} Written as (aq), so split.` };
+  }
+  return { ...base, kind: "insoluble-salt", reason: rule };
+}
+
+// Adds like terms (same formula and state) on one side, keeping first-seen order.
+function merge(terms: IonicTerm[]): IonicTerm[] {
+  const out: IonicTerm[] = [];
+  for (const t of terms) {
+    const same = out.find((o) => o.formula === t.formula && o.state === t.state);
+    if (same) same.coeff += t.coeff;
+    else out.push({ ...t });
+  }
+  return out;
+}
+
+/**
+ * The molecular, complete ionic and net ionic forms of an equation. Without
+ * `coeffs` the molecular equation is balanced first.
+ */
+export function ionicEquations(
+  left: Array<{ formula: string; state?: PhysicalState }>,
+  right: Array<{ formula: string; state?: PhysicalState }>,
+  coeffs?: { left: number[]; right: number[] }
+): IonicEquations {
+  const solved =
+    coeffs ??
+    solveEquation(
+      left.map((s) => s.formula),
+      right.map((s) => s.formula),
+      countElementsInFormula,
+      formulaCharge
+    );
+  if (!solved) throw new IonicError("The molecular equation cannot be balanced.");
+
+  const withCoeff = (list: typeof left, k: number[]) =>
+    list.map((s, i) => (s.state ? { coeff: k[i], formula: s.formula, state: s.state } : { coeff: k[i], formula: s.formula }));
+  const molecular = { left: withCoeff(left, solved.left), right: withCoeff(right, solved.right) };
+  const species = [...molecular.left, ...molecular.right].map((t) => dissociate(t.formula, t.state));
+
+  let k = 0;
+  const expand = (terms: IonicTerm[]) =>
+    merge(
+      terms.flatMap((t) => {
+        const d = species[k++];
+        if (d.dissociates) {
+          return d.ions.map((ion) => ({ coeff: t.coeff * ion.count, formula: ion.formula, state: "aq" as const }));
+        }
+        const state = t.state ?? (d.kind === "insoluble-salt" ? "s" : d.kind === "ion" ? "aq" : undefined);
+        return [state ? { coeff: t.coeff, formula: t.formula, state } : { coeff: t.coeff, formula: t.formula }];
+      })
+    );
+  const complete = { left: expand(molecular.left), right: expand(molecular.right) };
+
+  // Cancel whatever appears unchanged on both sides.
+  const netLeft = complete.left.map((t) => ({ ...t }));
+  const netRight = complete.right.map((t) => ({ ...t }));
+  const spectators: string[] = [];
+  for (const l of netLeft) {
+    const r = netRight.find((x) => x.formula === l.formula && x.state === l.state);
+    if (!r) continue;
+    const n = Math.min(l.coeff, r.coeff);
+    l.coeff -= n;
+    r.coeff -= n;
+    spectators.push(l.formula);
+  }
+  const remaining = { left: netLeft.filter((t) => t.coeff > 0), right: netRight.filter((t) => t.coeff > 0) };
+  let net: IonicSide | null = null;
+  if (remaining.left.length && remaining.right.length) {
+    const g = [...remaining.left, ...remaining.right].reduce((a, t) => gcd(a, t.coeff), 0);
+    const scale = (t: IonicTerm) => ({ ...t, coeff: t.coeff / g });
+    net = { left: remaining.left.map(scale), right: remaining.right.map(scale) };
+  }
+  return { molecular, complete, net, spectators, species };
+}
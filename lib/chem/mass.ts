@@ -0,0 +1,53 @@
+// lib/chem/mass.ts
+//
+// Molar mass and mass-percent composition from the formula parser and the
+// periodic table's isotope-averaged standard atomic weights. Electron mass is
+// neglected, so ions weigh the same as their neutral formula.
+
+import { countElementsInFormula } from "./parser";
+import { getElement } from "./elements";
+
+export type MassOptions = {
+  // Decimal places to round results to; omit for full precision.
+  precision?: number;
+};
+
+export type CompositionEntry = {
+  element: string;
+  count: number;
+  mass: number; // g/mol contributed by this element
+  percent: number; // mass percent of the whole formula
+};
+
+function round(x: number, precision?: number) {
+  if (precision === undefined) return x;
+  const f = Math.pow(10, precision);
+  return Math.round(x * f) / f;
+}
+
+// Unknown symbols throw UnknownElementError (strict counting).
+export function molarMass(formula: string, options: MassOptions = {}): number {
+  const counts = countElementsInFormula(formula, { strict: true });
+  const total = Object.entries(counts).reduce(
+    (sum, [el, n]) => sum + n * getElement(el)!.atomicWeight,
+    0
+  );
+  return round(total, options.precision);
+}
+
+export function percentComposition(
+  formula: string,
+  options: MassOptions = {}
+): CompositionEntry[] {
+  const counts = countElementsInFormula(formula, { strict: true });
+  const total = molarMass(formula);
+  return Object.entries(counts).map(([element, count]) => {
+    const mass = count * getElement(element)!.atomicWeight;
+    return {
+      element,
+      count,
+      mass: round(mass, options.precision),
+      percent: round(total ? (100 * mass) / total : 0, options.precision),
+    };
+  });
+}
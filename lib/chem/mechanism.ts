@@ -0,0 +1,149 @@
+// lib/chem/mechanism.ts
+//
+// Multi-step mechanisms and reaction sequences. Each step is balanced on its
+// own, then the steps are scaled by the smallest whole-number multipliers
+// that make every intermediate (made in one step, used up in a later one)
+// and catalyst (used up, then given back) cancel. What is left is the net
+// reaction.
+
+import {
+  countElementsInFormula,
+  formulaCharge,
+  parseSpecies,
+  splitEquation,
+  type PhysicalState,
+} from "./parser";
+import { smallestPositiveSolution, solveEquation } from "./solver";
+
+export type MechanismTerm = { coeff: number; formula: string; state?: PhysicalState };
+
+export type MechanismStep = {
+  input: string;
+  left: MechanismTerm[];
+  right: MechanismTerm[];
+  multiplier: number;
+};
+
+export type MechanismResult = {
+  steps: MechanismStep[];
+  net: { left: MechanismTerm[]; right: MechanismTerm[] };
+  intermediates: string[];
+  catalysts: string[];
+  // False when no multipliers cancel every species that is both made and
+  // used; the steps are then added once each.
+  cancelled: boolean;
+};
+
+export class MechanismError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MechanismError";
+  }
+}
+
+// One step per line; ";" also separates steps on a single line.
+export function splitSteps(text: string): string[] {
+  return text
+    .split(/[\n;]/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+const balanced = (left: MechanismTerm[], right: MechanismTerm[]) => {
+  const net: Record<string, number> = {};
+  const tally = (terms: MechanismTerm[], sign: number) =>
+    terms.forEach((t) => {
+      for (const [el, n] of Object.entries(countElementsInFormula(t.formula))) {
+        net[el] = (net[el] || 0) + sign * n * t.coeff;
+      }
+      net.charge = (net.charge || 0) + sign * formulaCharge(t.formula) * t.coeff;
+    });
+  tally(left, 1);
+  tally(right, -1);
+  return Object.values(net).every((v) => v === 0);
+};
+
+// Keeps coefficients typed into a step if they already balance it.
+function balanceStep(input: string, index: number): Omit<MechanismStep, "multiplier"> {
+  const split = splitEquation(input);
+  if (!split || !split.left.length || !split.right.length) {
+    throw new MechanismError(`Step ${index + 1} needs one arrow with species on both sides.`);
+  }
+  const toTerm = (raw: string): MechanismTerm => {
+    const { coeff, formula, state } = parseSpecies(raw);
+    return state ? { coeff, formula, state } : { coeff, formula };
+  };
+  const left = split.left.map(toTerm);
+  const right = split.right.map(toTerm);
+  if (balanced(left, right)) return { input, left, right };
+
+  const solution = solveEquation(
+    left.map((t) => t.formula),
+    right.map((t) => t.formula),
+    countElementsInFormula,
+    formulaCharge
+  );
+  if (!solution) throw new MechanismError(`Step ${index + 1} (${input}) cannot be balanced.`);
+  return {
+    input,
+    left: left.map((t, i) => ({ ...t, coeff: solution.left[i] })),
+    right: right.map((t, i) => ({ ...t, coeff: solution.right[i] })),
+  };
+}
+
+/**
+ * Balances every step, finds the multipliers that cancel intermediates and
+ * catalysts, and sums the scaled steps into the net reaction. Species are
+ * matched by formula; the first physical state seen is kept for display.
+ */
+export function balanceMechanism(inputs: string[]): MechanismResult {
+  if (!inputs.length) throw new MechanismError("Enter at least one step.");
+  const steps = inputs.map(balanceStep);
+
+  // Net change of each species per step (products +, reactants −), and the
+  // side it first appears on.
+  const order: string[] = [];
+  const states: Record<string, PhysicalState | undefined> = {};
+  const firstSide: Record<string, "left" | "right"> = {};
+  const change = steps.map((step) => {
+    const d: Record<string, number> = {};
+    for (const [terms, sign, side] of [[step.left, -1, "left"], [step.right, 1, "right"]] as const) {
+      for (const t of terms) {
+        if (!(t.formula in firstSide)) {
+          firstSide[t.formula] = side;
+          states[t.formula] = t.state;
+          order.push(t.formula);
+        }
+        d[t.formula] = (d[t.formula] || 0) + sign * t.coeff;
+      }
+    }
+    return d;
+  });
+
+  // Species both made and used somewhere in the sequence must cancel.
+  const transient = order.filter(
+    (f) => change.some((d) => (d[f] || 0) > 0) && change.some((d) => (d[f] || 0) < 0)
+  );
+  const rows = transient.map((f) => change.map((d) => d[f] || 0));
+  const found = rows.length ? smallestPositiveSolution(rows) : steps.map(() => 1);
+  const multipliers = found ?? steps.map(() => 1);
+
+  const total: Record<string, number> = {};
+  change.forEach((d, i) => {
+    for (const [f, k] of Object.entries(d)) total[f] = (total[f] || 0) + k * multipliers[i];
+  });
+  const term = (f: string, k: number): MechanismTerm =>
+    states[f] ? { coeff: k, formula: f, state: states[f] } : { coeff: k, formula: f };
+  const cancels = transient.filter((f) => total[f] === 0);
+
+  return {
+    steps: steps.map((s, i) => ({ ...s, multiplier: multipliers[i] })),
+    net: {
+      left: order.filter((f) => total[f] < 0).map((f) => term(f, -total[f])),
+      right: order.filter((f) => total[f] > 0).map((f) => term(f, total[f])),
+    },
+    intermediates: cancels.filter((f) => firstSide[f] === "right"),
+    catalysts: cancels.filter((f) => firstSide[f] === "left"),
+    cancelled: !!found,
+  };
+}
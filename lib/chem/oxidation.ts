@@ -0,0 +1,405 @@
+// lib/chem/oxidation.ts
+//
+// Oxidation number assignment and redox bookkeeping. Numbers come from the
+// usual textbook rules (F, group 1/2 metals, H, O in that order), known
+// polyatomic ions, and the species charge; whatever is left over goes to the
+// least electronegative element. Elements present at several sites get their
+// average, so Fe3O4 reports Fe as +8/3.
+
+import { countElementsInFormula, formulaCharge, tokenizeFormula } from "./parser";
+import { getElement } from "./elements";
+
+export type OxidationStates = Record<string, number>;
+
+// Polyatomic ions recognised inside formulas, written the way tokens spell them.
+const POLYATOMIC: Record<string, number> = {
+  NH4: 1, H3O: 1,
+  OH: -1, CN: -1, SCN: -1, NO3: -1, NO2: -1, MnO4: -1, HCO3: -1, HSO4: -1,
+  HSO3: -1, H2PO4: -1, ClO4: -1, ClO3: -1, ClO2: -1, ClO: -1, BrO3: -1,
+  IO3: -1, CH3COO: -1, C2H3O2: -1,
+  SO4: -2, SO3: -2, CO3: -2, CrO4: -2, Cr2O7: -2, C2O4: -2, S2O3: -2,
+  HPO4: -2, SiO3: -2,
+  PO4: -3, AsO4: -3, BO3: -3,
+};
+
+type Tok = ReturnType<typeof tokenizeFormula>[number];
+// `ion` names the polyatomic ion a unit stands for, `n` how many of it there are.
+type Unit = { counts: Record<string, number>; charge: number; ion?: string; n?: number };
+
+const EPS = 1e-9;
+
+function addCount(into: Record<string, number>, el: string, n: number) {
+  into[el] = (into[el] || 0) + n;
+}
+
+// "SO4" for the element tokens S, O4 (null if anything else is in the run).
+function ionKey(toks: Tok[]): string | null {
+  let key = "";
+  for (const t of toks) {
+    if (t.type !== "elem") return null;
+    key += t.symbol + (t.count > 1 ? t.count : "");
+  }
+  return key;
+}
+
+function matchingClose(toks: Tok[], i: number): number {
+  let depth = 0;
+  for (let j = i; j < toks.length; j++) {
+    const t = toks[j];
+    if (t.type !== "paren") continue;
+    if (/[([{]/.test(t.value)) depth++;
+    else if (--depth === 0) return j;
+  }
+  return toks.length;
+}
+
+// Walks one dot-free token run, pulling bracketed polyatomic ions out as units
+// and leaving the remaining atoms in `free`.
+function collect(toks: Tok[], mult: number, free: Record<string, number>, ions: Unit[]) {
+  let i = 0;
+  while (i < toks.length) {
+    const t = toks[i];
+    if (t.type === "elem") {
+      let j = i;
+      while (j < toks.length && toks[j].type === "elem") j++;
+      const run = toks.slice(i, j);
+      // A plain run right after a bracketed group may be an ion too: (NH4)2SO4.
+      const prev = toks[i - 1];
+      const key = prev && prev.type !== "elem" ? ionKey(run) : null;
+      if (key && key in POLYATOMIC) {
+        const counts: Record<string, number> = {};
+        for (const u of run) if (u.type === "elem") addCount(counts, u.symbol, u.count * mult);
+        ions.push({ counts, charge: POLYATOMIC[key] * mult, ion: key, n: mult });
+      } else {
+        for (const u of run) if (u.type === "elem") addCount(free, u.symbol, u.count * mult);
+      }
+      i = j;
+    } else if (t.type === "paren" && /[([{]/.test(t.value)) {
+      const close = matchingClose(toks, i);
+      const inner = toks.slice(i + 1, close);
+      const next = toks[close + 1];
+      const m = next && next.type === "num" ? next.value : 1;
+      const key = ionKey(inner);
+      if (key && key in POLYATOMIC) {
+        const counts: Record<string, number> = {};
+        for (const u of inner) if (u.type === "elem") addCount(counts, u.symbol, u.count * mult * m);
+        ions.push({ counts, charge: POLYATOMIC[key] * mult * m, ion: key, n: mult * m });
+      } else {
+        collect(inner, mult * m, free, ions);
+      }
+      i = next && next.type === "num" ? close + 2 : close + 1;
+    } else {
+      i++;
+    }
+  }
+}
+
+// Element that only forms cations (metals), or H; used to spot the cation
+// behind an anion written first.
+function cationOnly(el: string) {
+  return el === "H" || (getElement(el)?.oxidationStates ?? []).every((q) => q > 0);
+}
+
+// Unbracketed ions at the ends of a plain run: NH4Cl, FeSO4, NH4NO3, and
+// anion-first salts and acids such as CH3COONa, CH3COONH4 and CH3COOH.
+function splitEnds(toks: Tok[], mult: number): { rest: Tok[]; ions: Unit[] } {
+  const ions: Unit[] = [];
+  if (!toks.every((t) => t.type === "elem")) return { rest: toks, ions };
+  const unit = (run: Tok[], key: string): Unit => {
+    const counts: Record<string, number> = {};
+    for (const t of run) if (t.type === "elem") addCount(counts, t.symbol, t.count * mult);
+    return { counts, charge: POLYATOMIC[key] * mult, ion: key, n: mult };
+  };
+  // The whole run is one known ion (SCN^-): keep it whole rather than
+  // peeling CN off the end.
+  const whole = ionKey(toks);
+  if (whole && whole in POLYATOMIC) return { rest: [], ions: [unit(toks, whole)] };
+  let rest = toks;
+  for (let k = rest.length - 1; k >= 1; k--) {
+    const key = ionKey(rest.slice(0, k));
+    if (key && POLYATOMIC[key] > 0) {
+      ions.push(unit(rest.slice(0, k), key));
+      rest = rest.slice(k);
+      break;
+    }
+  }
+  if (!ions.length) {
+    for (let k = rest.length - 1; k >= 1; k--) {
+      const key = ionKey(rest.slice(0, k));
+      if (!key || !(POLYATOMIC[key] < 0)) continue;
+      const tail = rest.slice(k);
+      const tailKey = ionKey(tail);
+      const single = tail.length === 1 && tail[0].type === "elem" && cationOnly(tail[0].symbol);
+      if (!single && !(tailKey && POLYATOMIC[tailKey] > 0)) continue;
+      ions.push(unit(rest.slice(0, k), key));
+      if (single) return { rest: tail, ions };
+      ions.push(unit(tail, tailKey!));
+      return { rest: [], ions };
+    }
+  }
+  // After a cation prefix the anion may be everything that is left.
+  for (let k = ions.length ? 0 : 1; k < rest.length; k++) {
+    const key = ionKey(rest.slice(k));
+    if (key && POLYATOMIC[key] < 0) {
+      ions.push(unit(rest.slice(k), key));
+      rest = rest.slice(0, k);
+      break;
+    }
+  }
+  return { rest, ions };
+}
+
+function isMetalOfGroup(el: string, group: number) {
+  return el !== "H" && getElement(el)?.group === group;
+}
+
+// Rule-fixed value for an element inside a compound, or null if it floats.
+function fixedState(el: string): number | null {
+  if (el === "F") return -1;
+  if (isMetalOfGroup(el, 1)) return 1;
+  if (isMetalOfGroup(el, 2)) return 2;
+  if (el === "H") return 1;
+  if (el === "O") return -2;
+  return null;
+}
+
+const RULE_ORDER = (el: string) =>
+  el === "F" ? 0 : isMetalOfGroup(el, 1) ? 1 : isMetalOfGroup(el, 2) ? 2 : el === "H" ? 3 : 4;
+
+const electronegativity = (el: string) => getElement(el)?.electronegativity ?? 0;
+
+// Oxidation numbers for a neutral-or-charged group of atoms. Elements are
+// settled in rule order, then the floating ones from most to least
+// electronegative; the last one takes whatever keeps the charge right.
+function solveUnit({ counts, charge }: Unit): OxidationStates {
+  const els = Object.keys(counts).filter((el) => counts[el] > 0);
+  if (els.length === 1) return { [els[0]]: charge / counts[els[0]] };
+
+  // Hydrogen bonded only to less electronegative elements is a hydride.
+  const hydride = els.includes("H") &&
+    els.every((el) => el === "H" || electronegativity(el) < electronegativity("H"));
+  const fixed = els.filter((el) => fixedState(el) !== null).sort((a, b) => RULE_ORDER(a) - RULE_ORDER(b));
+  const floating = els
+    .filter((el) => fixedState(el) === null)
+    .sort((a, b) => electronegativity(b) - electronegativity(a));
+  const order = [...fixed, ...floating];
+
+  const out: OxidationStates = {};
+  let total = 0;
+  order.forEach((el, i) => {
+    if (i === order.length - 1) {
+      out[el] = (charge - total) / counts[el];
+      return;
+    }
+    let state = fixedState(el);
+    if (el === "H" && hydride) state = -1;
+    if (state === null) {
+      // A floating element that is not last takes its most negative common
+      // state (its lowest positive one if it has no negative states).
+      const common = getElement(el)?.oxidationStates ?? [];
+      const neg = common.filter((s) => s < 0);
+      state = neg.length ? Math.min(...neg) : common.length ? Math.min(...common) : 0;
+      // Atoms of an anion former can bond to each other (S2^2- in FeS2): if
+      // the usual state would leave the last element in a state it never
+      // takes, use the dimer's.
+      const last = order[order.length - 1];
+      const lastCommon = getElement(last)?.oxidationStates ?? [];
+      const lastState = (x: number) => (charge - total - x * counts[el]) / counts[last];
+      if (i === order.length - 2 && neg.length && counts[el] >= 2 &&
+          !lastCommon.includes(lastState(state)) && lastCommon.includes(lastState(state / 2))) {
+        state = state / 2;
+      }
+    }
+    out[el] = state;
+    total += state * counts[el];
+  });
+  return out;
+}
+
+// Dot-separated parts (hydrates, adducts) of a formula, each split into
+// polyatomic ion units and the atoms outside them.
+function decompose(formula: string): Array<{ ions: Unit[]; free: Record<string, number> }> {
+  const toks = tokenizeFormula(formula).filter((t) => t.type !== "charge" && t.type !== "state");
+  const parts: Array<{ toks: Tok[]; mult: number }> = [{ toks: [], mult: 1 }];
+  for (const t of toks) {
+    if (t.type === "dot") parts.push({ toks: [], mult: 1 });
+    else if (t.type === "num" && !parts.at(-1)!.toks.length && parts.length > 1) parts.at(-1)!.mult = t.value;
+    else parts.at(-1)!.toks.push(t);
+  }
+  return parts.map(({ toks: run, mult }) => {
+    const { rest, ions } = splitEnds(run, mult);
+    const free: Record<string, number> = {};
+    collect(rest, mult, free, ions);
+    return { ions, free };
+  });
+}
+
+// Charge of a known polyatomic ion ("SO4" → -2), or undefined.
+export function polyatomicCharge(ion: string): number | undefined {
+  return POLYATOMIC[ion];
+}
+
+/**
+ * Polyatomic ions a formula is built from, by count ("Ca3(PO4)2" → { PO4: 2 },
+ * "NH4NO3" → { NH4: 1, NO3: 1 }). A formula that is itself one of the known
+ * ions ("SO4^2-") counts once.
+ */
+export function polyatomicIons(formula: string): Record<string, number> {
+  const out: Record<string, number> = {};
+  const parts = decompose(formula);
+  for (const { ions } of parts) for (const u of ions) addCount(out, u.ion!, u.n!);
+  if (parts.length === 1 && !parts[0].ions.length) {
+    const key = ionKey(tokenizeFormula(formula).filter((t) => t.type !== "charge" && t.type !== "state"));
+    if (key && key in POLYATOMIC) out[key] = 1;
+  }
+  return out;
+}
+
+/**
+ * Oxidation number of every element in a formula ("KMnO4" → K +1, Mn +7, O −2).
+ * Free elements are 0 and monatomic ions carry their charge. Throws
+ * UnknownElementError for symbols that are not on the periodic table.
+ */
+export function assignOxidationStates(formula: string): OxidationStates {
+  // Average over sites, weighted by atom count.
+  const sum: Record<string, number> = {};
+  const atoms: Record<string, number> = {};
+  for (const { unit, states } of solveUnits(formula)) {
+    for (const [el, s] of Object.entries(states)) {
+      addCount(sum, el, s * unit.counts[el]);
+      addCount(atoms, el, unit.counts[el]);
+    }
+  }
+  const out: OxidationStates = {};
+  for (const el of Object.keys(atoms).sort()) out[el] = tidy(sum[el] / atoms[el]);
+  return out;
+}
+
+function tidy(x: number) {
+  return Math.abs(x - Math.round(x)) < EPS ? Math.round(x) + 0 : x;
+}
+
+// Distinct oxidation numbers of each element across the units of a formula:
+// NH4NO3 keeps N at −3 (NH4+) and +5 (NO3−) apart instead of averaging to +1.
+function siteStates(formula: string): Record<string, number[]> {
+  const out: Record<string, number[]> = {};
+  for (const { states } of solveUnits(formula)) {
+    for (const [el, s] of Object.entries(states)) {
+      const x = tidy(s);
+      if (!out[el]) out[el] = [];
+      if (!out[el].some((y) => Math.abs(y - x) < EPS)) out[el].push(x);
+    }
+  }
+  return out;
+}
+
+// Polyatomic ion units and leftover atoms of a formula, each solved on its own.
+function solveUnits(formula: string): Array<{ unit: Unit; states: OxidationStates }> {
+  countElementsInFormula(formula, { strict: true });
+
+  // Every part but the first is neutral.
+  const units: Unit[] = [];
+  decompose(formula).forEach(({ ions, free }, i) => {
+    const ionCharge = ions.reduce((q, u) => q + u.charge, 0);
+    units.push(...ions);
+    const q = (i === 0 ? formulaCharge(formula) : 0) - ionCharge;
+    if (Object.keys(free).length) units.push({ counts: free, charge: q });
+    else if (q !== 0) {
+      // The ions alone do not add up to the species charge: treat the part as one unit.
+      const counts: Record<string, number> = {};
+      for (const u of units.splice(units.length - ions.length)) {
+        for (const [el, n] of Object.entries(u.counts)) addCount(counts, el, n);
+      }
+      units.push({ counts, charge: q + ionCharge });
+    }
+  });
+
+  return units.map((unit) => ({ unit, states: solveUnit(unit) }));
+}
+
+// "+7", "-2", "0", "+8/3" (fractions up to twelfths).
+export function formatOxidationState(n: number): string {
+  const sign = n > EPS ? "+" : n < -EPS ? "-" : "";
+  const a = Math.abs(n);
+  for (let d = 1; d <= 12; d++) {
+    const num = Math.round(a * d);
+    if (Math.abs(a * d - num) < 1e-6) return num === 0 ? "0" : `${sign}${num}${d > 1 ? `/${d}` : ""}`;
+  }
+  return `${sign}${a.toFixed(2)}`;
+}
+
+export type OxidationChange = {
+  element: string;
+  from: { index: number; formula: string; state: number }; // left species
+  to: { index: number; formula: string; state: number };   // right species
+  kind: "oxidized" | "reduced";
+  delta: number; // change in oxidation number per atom
+};
+
+export type RedoxAnalysis = {
+  left: Array<OxidationStates | null>; // null where a formula cannot be assigned
+  right: Array<OxidationStates | null>;
+  changes: OxidationChange[];
+  oxidizingAgents: number[]; // left indices
+  reducingAgents: number[];
+  isRedox: boolean;
+};
+
+function safeAssign(formula: string): OxidationStates | null {
+  try {
+    return assignOxidationStates(formula);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compares oxidation numbers element by element between every reactant and
+ * product that share the element. A reactant holding an element that is
+ * reduced is an oxidizing agent; one holding an element that is oxidized is a
+ * reducing agent (a species can be both, as in disproportionation).
+ * Elements at several sites (N in NH4NO3) are compared site by site, so
+ * comproportionation shows up even when the averages agree; a site whose
+ * state already appears on the other side is taken as unchanged.
+ */
+export function analyzeOxidation(left: string[], right: string[]): RedoxAnalysis {
+  const ls = left.map(safeAssign);
+  const rs = right.map(safeAssign);
+  const sites = (formulas: string[], states: Array<OxidationStates | null>) =>
+    formulas.map((f, i) => (states[i] ? siteStates(f) : null));
+  const lSites = sites(left, ls);
+  const rSites = sites(right, rs);
+  const has = (xs: number[], x: number) => xs.some((y) => Math.abs(y - x) < EPS);
+  const changes: OxidationChange[] = [];
+  lSites.forEach((a, i) => {
+    if (!a) return;
+    rSites.forEach((b, j) => {
+      if (!b) return;
+      for (const el of Object.keys(a)) {
+        if (!(el in b)) continue;
+        for (const x of a[el]) {
+          for (const y of b[el]) {
+            if (has(a[el], y) || has(b[el], x)) continue;
+            changes.push({
+              element: el,
+              from: { index: i, formula: left[i], state: x },
+              to: { index: j, formula: right[j], state: y },
+              kind: y > x ? "oxidized" : "reduced",
+              delta: y - x,
+            });
+          }
+        }
+      }
+    });
+  });
+  const indices = (kind: OxidationChange["kind"]) =>
+    Array.from(new Set(changes.filter((c) => c.kind === kind).map((c) => c.from.index))).sort((a, b) => a - b);
+  return {
+    left: ls,
+    right: rs,
+    changes,
+    oxidizingAgents: indices("reduced"),
+    reducingAgents: indices("oxidized"),
+    isRedox: changes.length > 0,
+  };
+}
@@ -1,7 +1,109 @@
 // lib/chem/parser.ts
 
+import { isElementSymbol } from "./elements";
+
+export type ArrowKind = "forward" | "reverse" | "equilibrium" | "resonance";
+export type ArrowInfo = { kind: ArrowKind; conditions: string[] };
+
+// An arrow, with conditions either written inline ("-Δ->") or in brackets
+// right after it ("->[Pt, 500 °C]"). Group 1: inline condition, 2: arrow, 3: bracket.
+const ARROW = /(?:-([^\s\-\[\]<>=+]+)-+>|(⇌|⇋|⇄|<=+>|↔|⟷|<-+>|⇒|→|⟶|=+>|-+>|←|⟵|<-+))(?:\[([^\]]*)\])?/g;
+
+const ARROW_KINDS: Array<[RegExp, ArrowKind]> = [
+  [/^(?:⇌|⇋|⇄|<=+>)$/, "equilibrium"],
+  [/^(?:↔|⟷|<-+>)$/, "resonance"],
+  [/^(?:←|⟵|<-+)$/, "reverse"],
+];
+
+// Canonical ASCII spelling of each kind, used when exporting.
+export const ARROW_TEXT: Record<ArrowKind, string> = {
+  forward: "->",
+  reverse: "<-",
+  equilibrium: "<=>",
+  resonance: "<->",
+};
+
+function arrowInfo(m: RegExpMatchArray): ArrowInfo {
+  const kind = m[2] ? ARROW_KINDS.find(([re]) => re.test(m[2]))?.[1] ?? "forward" : "forward";
+  const conditions = [m[1], ...(m[3] ?? "").split(",")]
+    .map((c) => c?.trim())
+    .filter(Boolean);
+  return { kind, conditions };
+}
+
 export function normalizeArrow(s: string) {
-  return s.replace(/⇌|<=>|⟷|⇒|→|<-+>|=+>|-+>/g, "->");
+  return s.replace(ARROW, "->");
+}
+
+// Every arrow in the raw equation, with its offsets, kind and conditions.
+export function findArrows(eqn: string): Array<{ start: number; end: number } & ArrowInfo> {
+  return [...eqn.matchAll(ARROW)].map((m) => ({
+    start: m.index!,
+    end: m.index! + m[0].length,
+    ...arrowInfo(m),
+  }));
+}
+
+// "->", "<=>", "->[Pt, 500 °C]"
+export function formatArrow(arrow?: ArrowInfo) {
+  if (!arrow) return ARROW_TEXT.forward;
+  const cond = arrow.conditions.length ? `[${arrow.conditions.join(", ")}]` : "";
+  return ARROW_TEXT[arrow.kind] + cond;
+}
+
+export type PhysicalState = "s" | "l" | "g" | "aq";
+
+// "(s)", "(l)", "(g)", "(aq)" — lowercase, so never confused with a formula group.
+const STATE_LABEL = /^\((s|l|g|aq)\)/;
+// Evolved gas / precipitate markers.
+const STATE_MARKS: Record<string, PhysicalState> = { "↑": "g", "↓": "s" };
+
+// A "+" is a charge sign (not a species separator) when it follows "^",
+// or when it is glued to the end of a species: "Na+ + Cl-", "Fe^{3+}", "Na+(aq)".
+function isChargePlus(s: string, i: number) {
+  const prev = s[i - 1];
+  const next = s[i + 1];
+  if (prev === "^") return true;
+  if (prev === undefined || /[\s+]/.test(prev)) return false;
+  if (next === "(") return STATE_LABEL.test(s.slice(i + 1));
+  return next === undefined || /[\s+})↑↓]/.test(next);
+}
+
+// Strip a trailing state label: "NaCl(aq)" -> { formula: "NaCl", state: "aq" }.
+export function splitState(formula: string): { formula: string; state?: PhysicalState } {
+  const f = formula.trim();
+  const mark = STATE_MARKS[f.slice(-1)];
+  if (mark) return { formula: f.slice(0, -1).trim(), state: mark };
+  const m = f.match(/\((s|l|g|aq)\)$/);
+  if (m) return { formula: f.slice(0, m.index).trim(), state: m[1] as PhysicalState };
+  return { formula: f };
+}
+
+// Species of one side with their trimmed offsets (relative to `offset`).
+export function splitSpeciesSpans(
+  side: string,
+  offset = 0
+): Array<{ text: string; start: number; end: number }> {
+  const out: Array<{ text: string; start: number; end: number }> = [];
+  const take = (from: number, to: number) => {
+    const raw = side.slice(from, to);
+    const text = raw.trim();
+    if (!text) return;
+    const start = offset + from + (raw.length - raw.trimStart().length);
+    out.push({ text, start, end: start + text.length });
+  };
+  let start = 0;
+  for (let i = 0; i < side.length; i++) {
+    if (side[i] !== "+" || isChargePlus(side, i)) continue;
+    take(start, i);
+    start = i + 1;
+  }
+  take(start, side.length);
+  return out;
+}
+
+export function splitSpecies(side: string): string[] {
+  return splitSpeciesSpans(side).map((sp) => sp.text);
 }
 
 export function splitEquation(eqn: string): { left: string[]; right: string[] } | null {
@@ -9,31 +111,144 @@ export function splitEquation(eqn: string): { left: string[]; right: string[] }
   const parts = arrow.split("->");
   if (parts.length !== 2) return null;
   const [lhs, rhs] = parts;
-  const left = lhs.split("+").map((s) => s.trim()).filter(Boolean);
-  const right = rhs.split("+").map((s) => s.trim()).filter(Boolean);
+  const left = splitSpecies(lhs);
+  const right = splitSpecies(rhs);
   return { left, right };
 }
 
-export function parseSpecies(raw: string) {
+export type Species = {
+  coeff: number;
+  formula: string; // without the state label
+  charge: number;
+  state?: PhysicalState;
+};
+
+export function parseSpecies(raw: string): Species {
   const m = raw.match(/^\s*(\d+)\s*(.*)$/);
-  if (m) return { coeff: parseInt(m[1], 10), formula: m[2].trim() };
-  return { coeff: 1, formula: raw.trim() };
+  const coeff = m ? parseInt(m[1], 10) : 1;
+  const { formula, state } = splitState(m ? m[2] : raw);
+  const sp: Species = { coeff, formula, charge: formulaCharge(formula) };
+  if (state) sp.state = state;
+  return sp;
+}
+
+// "2H2O(l)"; the coefficient is omitted when it is 1.
+export function formatSpecies(sp: { coeff?: number; formula: string; state?: PhysicalState }) {
+  const k = sp.coeff ?? 1;
+  return `${k === 1 ? "" : k}${sp.formula}${sp.state ? `(${sp.state})` : ""}`;
 }
 
-type Token =
+export function formatEquation(
+  left: Array<{ coeff?: number; formula: string; state?: PhysicalState }>,
+  right: Array<{ coeff?: number; formula: string; state?: PhysicalState }>,
+  arrow?: ArrowInfo
+) {
+  return `${left.map(formatSpecies).join(" + ")} ${formatArrow(arrow)} ${right.map(formatSpecies).join(" + ")}`;
+}
+
+// start/end are offsets into the string given to tokenizeFormula (end exclusive).
+type Token = { start?: number; end?: number } & (
   | { type: "dot" }
   | { type: "paren"; value: string }
   | { type: "elem"; symbol: string; count: number }
-  | { type: "num"; value: number };
+  | { type: "num"; value: number }
+  // `ambiguous` marks a bare sign that may not mean what it says: after a
+  // digit that was probably the magnitude ("Fe3+"), or in mid-formula
+  // ("C6H5-CH3").
+  | { type: "charge"; value: number; ambiguous?: "digits" | "inside" }
+  | { type: "state"; value: PhysicalState }
+  | { type: "unknown"; value: string }
+);
+
+const SUPERSCRIPT_DIGITS = "⁰¹²³⁴⁵⁶⁷⁸⁹";
+const SIGNS: Record<string, number> = { "+": 1, "-": -1, "−": -1, "⁺": 1, "⁻": -1 };
+
+// Free electron: "e", "e-", "e^-", "e⁻"
+const ELECTRON = /^e(?:\^?\{?[-−]\}?|⁻)?$/;
+
+// Reads "^2+", "^+", "^{3-}" or "^-2" starting at the caret; returns the charge and end index.
+function readCaretCharge(s: string, i: number): { value: number; end: number } {
+  let j = i + 1;
+  const braced = s[j] === "{";
+  if (braced) j++;
+  let digits = "";
+  while (j < s.length && /\d/.test(s[j])) digits += s[j++];
+  let sign = 0;
+  if (j < s.length && SIGNS[s[j]]) sign = SIGNS[s[j++]];
+  while (!digits && j < s.length && /\d/.test(s[j])) digits += s[j++];
+  if (braced && s[j] === "}") j++;
+  const mag = digits ? parseInt(digits, 10) : 1;
+  return { value: sign * mag, end: j };
+}
 
 export function tokenizeFormula(formula: string): Token[] {
-  const s = formula.replace(/\s+/g, "");
+  // Whitespace is ignored, but pos[] maps each kept character back to its
+  // offset in `formula` so tokens can report where they came from.
+  let s = "";
+  const pos: number[] = [];
+  for (let k = 0; k < formula.length; k++) {
+    if (/\s/.test(formula[k])) continue;
+    s += formula[k];
+    pos.push(k);
+  }
+  if (ELECTRON.test(s)) {
+    return [{ type: "charge", value: -1, start: pos[0], end: pos[s.length - 1] + 1 }];
+  }
+
   const tokens: Token[] = [];
+  let from = 0;
+  const push = (t: Token, to: number) =>
+    tokens.push({ ...t, start: pos[from], end: pos[to - 1] + 1 });
+
   let i = 0;
   while (i < s.length) {
     const c = s[i];
-    if (c === "·" || c === ".") { tokens.push({ type: "dot" }); i++; continue; }
-    if (/[()\[\]{}]/.test(c)) { tokens.push({ type: "paren", value: c }); i++; continue; }
+    from = i;
+    const label = c === "(" ? s.slice(i).match(STATE_LABEL) : null;
+    if (label) {
+      push({ type: "state", value: label[1] as PhysicalState }, i + label[0].length);
+      i += label[0].length; continue;
+    }
+    if (STATE_MARKS[c]) { push({ type: "state", value: STATE_MARKS[c] }, i + 1); i++; continue; }
+    if (c === "^") {
+      const { value, end } = readCaretCharge(s, i);
+      push({ type: "charge", value }, end);
+      i = end; continue;
+    }
+    if (SUPERSCRIPT_DIGITS.includes(c) || c === "⁺" || c === "⁻") {
+      let mag = 0, sign = 0, j = i;
+      for (; j < s.length; j++) {
+        const d = SUPERSCRIPT_DIGITS.indexOf(s[j]);
+        if (d >= 0) mag = mag * 10 + d;
+        else if (s[j] === "⁺" || s[j] === "⁻") sign = SIGNS[s[j]];
+        else break;
+      }
+      push({ type: "charge", value: (sign || 1) * (mag || 1) }, j);
+      i = j; continue;
+    }
+    if (SIGNS[c]) {
+      // Bare trailing sign; "[Fe(CN)6]4-" reads the digits after a "]" as the magnitude.
+      let mag = 1;
+      let start = pos[i];
+      const last = tokens.at(-1);
+      const beforeLast = tokens.at(-2);
+      if (last?.type === "num" && beforeLast?.type === "paren" && beforeLast.value === "]") {
+        mag = last.value;
+        start = last.start;
+        tokens.pop();
+      }
+      const charge: Extract<Token, { type: "charge" }> = { type: "charge", value: SIGNS[c] * mag, start, end: pos[i] + 1 };
+      const rest = s.slice(i + 1);
+      if (rest && !STATE_LABEL.test(rest) && !STATE_MARKS[rest[0]]) charge.ambiguous = "inside";
+      // A lone element ("Cu2+") or an implausible count ("SO42-") before the sign.
+      else if (last?.type === "elem" && last.count > 1 && (tokens.length === 1 || last.count >= 10)) {
+        charge.ambiguous = "digits";
+      }
+      tokens.push(charge);
+      i++; continue;
+    }
+    if (c === "·" || c === ".") { push({ type: "dot" }, i + 1); i++; continue; }
+    if (/[()\[\]{}]/.test(c)) { push({ type: "paren", value: c }, i + 1); i++; continue; }
     if (/[A-Z]/.test(c)) {
       let sym = c;
       if (i + 1 < s.length && /[a-z]/.test(s[i + 1])) { sym += s[i + 1]; i += 2; }
@@ -42,15 +257,16 @@ export function tokenizeFormula(formula: string): Token[] {
       while (j < s.length && /\d/.test(s[j])) j++;
       const num = j > i ? parseInt(s.slice(i, j), 10) : 1;
       i = j;
-      tokens.push({ type: "elem", symbol: sym, count: num });
+      push({ type: "elem", symbol: sym, count: num }, j);
       continue;
     }
     if (/\d/.test(c)) {
       let j = i; while (j < s.length && /\d/.test(s[j])) j++;
       const num = parseInt(s.slice(i, j), 10);
-      tokens.push({ type: "num", value: num });
+      push({ type: "num", value: num }, j);
       i = j; continue;
     }
+    push({ type: "unknown", value: c }, i + 1);
     i++;
   }
   return tokens;
@@ -77,7 +293,7 @@ export function tokensToCounts(tokens: Token[]): Map<string, number> {
       else if (closers.has(v)) {
         const opener = match[v];
         const lastOpener = parenStack.pop();
-        if (lastOpener !== opener) { /* tolerate mismatch */ }
+        if (lastOpener !== opener) { /* tolerate mismatch; formulaDiagnostics reports it */ }
         const group = stack.pop()!;
         let mult = 1;
         const nxt = tokens[i + 1];
@@ -125,12 +341,43 @@ export function tokensToCounts(tokens: Token[]): Map<string, number> {
   return stack[0];
 }
 
-export function countElementsInFormula(formula: string): Record<string, number> {
+export class UnknownElementError extends Error {
+  constructor(public formula: string, public symbols: string[]) {
+    super(`Unknown element${symbols.length > 1 ? "s" : ""} in ${formula}: ${symbols.join(", ")}`);
+    this.name = "UnknownElementError";
+  }
+}
+
+// Symbols in the formula that are not on the periodic table ("Xx2", "Hh").
+export function unknownElements(formula: string): string[] {
+  const symbols = tokenizeFormula(formula)
+    .filter((t) => t.type === "elem" && !isElementSymbol(t.symbol))
+    .map((t) => (t.type === "elem" ? t.symbol : ""));
+  return Array.from(new Set(symbols));
+}
+
+// Non-strict mode still counts unknown symbols (so live typing keeps working);
+// callers flag them with unknownElements(). Strict mode throws instead.
+export function countElementsInFormula(
+  formula: string,
+  options: { strict?: boolean } = {}
+): Record<string, number> {
   const tokens = tokenizeFormula(formula);
+  if (options.strict) {
+    const unknown = unknownElements(formula);
+    if (unknown.length) throw new UnknownElementError(formula, unknown);
+  }
   const counts = tokensToCounts(tokens);
   return Object.fromEntries([...counts.entries()].sort(([a],[b]) => a.localeCompare(b)));
 }
 
+export function formulaCharge(formula: string): number {
+  return tokenizeFormula(formula).reduce(
+    (q, t) => (t.type === "charge" ? q + t.value : q),
+    0
+  );
+}
+
 export function multiplyCounts(counts: Record<string, number>, k: number) {
   const out: Record<string, number> = {};
   for (const [el, n] of Object.entries(counts)) out[el] = n * k;
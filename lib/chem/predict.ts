@@ -0,0 +1,344 @@
+// lib/chem/predict.ts
+//
+// Product prediction for equations typed with only the reactants
+// ("C3H8 + O2 ->"). Covers the reaction classes taught first: combustion,
+// neutralization, single replacement (activity series), double replacement
+// (solubility rules), synthesis from elements or oxides, and the classic
+// decompositions. The predicted equation is balanced with solveEquation.
+
+import { countElementsInFormula, formulaCharge, parseSpecies } from "./parser";
+import { getElement } from "./elements";
+import { compoundFormula, dissociate, ionPair } from "./ionic";
+import { solveEquation } from "./solver";
+import { formulaDiagnostics, type parseEquation } from "./diagnostics";
+import type { ReactionType } from "./classify";
+
+export type Prediction = {
+  type: ReactionType;
+  left: string[];
+  right: string[];
+  coeffs: { left: number[]; right: number[] };
+  reason: string;
+};
+
+export class PredictionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PredictionError";
+  }
+}
+
+// Most to least active; H marks where metals stop displacing hydrogen.
+const METAL_ACTIVITY = [
+  "Li", "K", "Ba", "Sr", "Ca", "Na", "Mg", "Al", "Mn", "Zn", "Cr", "Fe", "Cd",
+  "Co", "Ni", "Sn", "Pb", "H", "Cu", "Hg", "Ag", "Pt", "Au",
+];
+// Metals that displace hydrogen from cold water.
+const WATER_REACTIVE = new Set(["Li", "K", "Ba", "Sr", "Ca", "Na"]);
+const HALOGEN_ACTIVITY = ["F", "Cl", "Br", "I"];
+const DIATOMIC = new Set(["H", "N", "O", "F", "Cl", "Br", "I"]);
+
+// Usual ion charges where the element list starts elsewhere (Cu +1, Fe +2…).
+const CATION_CHARGE: Record<string, number> = {
+  Cu: 2, Hg: 2, Au: 3, Cr: 3, Fe: 2, Co: 2, Mn: 2, Sn: 2, Pb: 2, Pt: 2,
+};
+const ANION_CHARGE: Record<string, number> = {
+  O: -2, S: -2, Se: -2, N: -3, P: -3, F: -1, Cl: -1, Br: -1, I: -1, H: -1,
+};
+
+// What nonmetals burn to in oxygen.
+const NONMETAL_OXIDE: Record<string, string> = { C: "CO2", S: "SO2", P: "P4O10" };
+
+// Oxides that add water to give an acid, or a metal oxide to give a salt.
+const ACID_ANHYDRIDES: Record<string, string> = {
+  CO2: "CO3", SO2: "SO3", SO3: "SO4", N2O5: "NO3",
+};
+
+const elementFormula = (el: string) => (DIATOMIC.has(el) ? `${el}2` : el);
+const isMetal = (el: string) => !(el in ANION_CHARGE) && !["C", "Si", "B", "As", "Te"].includes(el) &&
+  !!getElement(el) && getElement(el)!.group !== 18;
+
+function cationCharge(el: string): number {
+  if (el in CATION_CHARGE) return CATION_CHARGE[el];
+  const g = getElement(el)?.group;
+  if (g === 1 || g === 2) return g;
+  if (el === "Al") return 3;
+  return getElement(el)?.oxidationStates.find((s) => s > 0) ?? 2;
+}
+
+function soleElement(formula: string): string | null {
+  if (formulaCharge(formula)) return null;
+  const els = Object.keys(countElementsInFormula(formula));
+  return els.length === 1 ? els[0] : null;
+}
+
+const isAcid = (f: string) => {
+  const k = dissociate(f).kind;
+  return k === "strong-acid" || k === "weak-acid";
+};
+
+// Unstable products that fall apart as soon as they form.
+function settle(formula: string): string[] {
+  switch (formula) {
+    case "H2CO3":
+    case "HHCO3": // H+ meeting HCO3- (NaHCO3 + HCl)
+      return ["H2O", "CO2"];
+    case "H2SO3":
+    case "HHSO3":
+      return ["H2O", "SO2"];
+    case "NH4OH":
+      return ["NH3", "H2O"];
+    default:
+      return [formula];
+  }
+}
+
+type Guess = { type: ReactionType; products: string[]; reason: string };
+
+function combustion(formulas: string[]): Guess | null {
+  const fuels = formulas.filter((f) => f !== "O2");
+  if (fuels.length !== 1 || fuels.length === formulas.length) return null;
+  const els = Object.keys(countElementsInFormula(fuels[0]));
+  if (!els.includes("C") && !els.includes("H")) return null;
+  if (!els.every((el) => ["C", "H", "O", "S", "N"].includes(el))) return null;
+  const products = [
+    els.includes("C") && "CO2",
+    els.includes("H") && "H2O",
+    els.includes("S") && "SO2",
+    els.includes("N") && "N2",
+  ].filter(Boolean) as string[];
+  return {
+    type: "combustion",
+    products,
+    reason: `${fuels[0]} burns in oxygen: carbon ends up as CO2 and hydrogen as H2O.`,
+  };
+}
+
+function neutralization(formulas: string[]): Guess | null {
+  if (formulas.length !== 2) return null;
+  const acid = formulas.find(isAcid);
+  const base = formulas.find((f) => f !== acid);
+  if (!acid || !base) return null;
+  const a = ionPair(acid)!;
+  if (base === "NH3") {
+    return {
+      type: "neutralization",
+      products: [compoundFormula({ base: "NH4", charge: 1 }, a.anion)],
+      reason: `NH3 takes H+ from ${acid}, forming the ammonium salt.`,
+    };
+  }
+  const b = ionPair(base);
+  if (!b || b.anion.base !== "OH") return null;
+  return {
+    type: "neutralization",
+    products: [compoundFormula(b.cation, a.anion), "H2O"],
+    reason: `Acid + base → salt + water: H+ from ${acid} and OH- from ${base} form H2O.`,
+  };
+}
+
+function singleReplacement(formulas: string[]): Guess | null {
+  if (formulas.length !== 2) return null;
+  const i = formulas.findIndex((f) => soleElement(f));
+  if (i < 0) return null;
+  const el = soleElement(formulas[i])!;
+  const other = formulas[1 - i];
+
+  if (other === "H2O" && isMetal(el)) {
+    if (!WATER_REACTIVE.has(el)) {
+      throw new PredictionError(`No reaction: ${el} is not active enough to react with cold water.`);
+    }
+    return {
+      type: "single-replacement",
+      products: [compoundFormula({ base: el, charge: cationCharge(el) }, { base: "OH", charge: -1 }), "H2"],
+      reason: `${el} is one of the most active metals, so it displaces hydrogen from water.`,
+    };
+  }
+
+  const pair = ionPair(other);
+  if (!pair) return null;
+  const { cation, anion } = pair;
+  if (isMetal(el) && cation.element && METAL_ACTIVITY.includes(cation.element)) {
+    const target = cation.element;
+    const rank = METAL_ACTIVITY.indexOf(el);
+    if (rank < 0) return null;
+    if (rank >= METAL_ACTIVITY.indexOf(target)) {
+      throw new PredictionError(`No reaction: ${el} is below ${target} in the activity series.`);
+    }
+    return {
+      type: "single-replacement",
+      products: [compoundFormula({ base: el, charge: cationCharge(el) }, anion), elementFormula(target)],
+      reason: `${el} is above ${target} in the activity series, so it replaces it.`,
+    };
+  }
+  if (HALOGEN_ACTIVITY.includes(el) && anion.element && HALOGEN_ACTIVITY.includes(anion.element)) {
+    const target = anion.element;
+    if (HALOGEN_ACTIVITY.indexOf(el) >= HALOGEN_ACTIVITY.indexOf(target)) {
+      throw new PredictionError(`No reaction: ${el} is less reactive than ${target}.`);
+    }
+    return {
+      type: "single-replacement",
+      products: [compoundFormula(cation, { base: el, charge: -1 }), elementFormula(target)],
+      reason: `${el}2 is a more reactive halogen than ${target}2, so it replaces it.`,
+    };
+  }
+  return null;
+}
+
+function doubleReplacement(formulas: string[]): Guess | null {
+  if (formulas.length !== 2) return null;
+  const [a, b] = formulas.map(ionPair);
+  if (!a || !b) return null;
+  const swapped = [compoundFormula(a.cation, b.anion), compoundFormula(b.cation, a.anion)];
+  const products = swapped.flatMap(settle);
+  const insoluble = swapped.filter((f) => dissociate(f).kind === "insoluble-salt");
+  const gas = products.filter((f) => ["CO2", "SO2", "NH3", "H2S"].includes(f));
+  const water = products.includes("H2O");
+  if (!insoluble.length && !gas.length && !water) {
+    throw new PredictionError(
+      `No reaction: ${swapped.join(" and ")} are both soluble, so no precipitate, gas or water forms.`
+    );
+  }
+  const why = [
+    insoluble.length && `${insoluble.join(" and ")} is insoluble and precipitates (${dissociate(insoluble[0]).reason.replace(/\.$/, "")})`,
+    gas.length && `${gas.join(" and ")} escapes as a gas`,
+    water && !gas.length && "water forms",
+  ].filter(Boolean);
+  return {
+    type: insoluble.length ? "precipitation" : "double-replacement",
+    products,
+    reason: `The ions trade partners; ${why.join(", and ")}.`,
+  };
+}
+
+function synthesis(formulas: string[]): Guess | null {
+  if (formulas.length !== 2) return null;
+  const els = formulas.map(soleElement);
+  if (els[0] && els[1]) {
+    const metal = els.find((el) => isMetal(el!));
+    const nonmetal = els.find((el) => el !== metal && el! in ANION_CHARGE);
+    if (!metal || !nonmetal) {
+      if (els.includes("H") && els.some((el) => el === "N")) {
+        return { type: "synthesis", products: ["NH3"], reason: "Nitrogen and hydrogen combine to ammonia." };
+      }
+      const fuel = els.find((el) => el !== "O");
+      if (els.includes("O") && fuel && fuel in NONMETAL_OXIDE) {
+        return {
+          type: "synthesis",
+          products: [NONMETAL_OXIDE[fuel]],
+          reason: `${fuel} burns in oxygen to ${NONMETAL_OXIDE[fuel]}.`,
+        };
+      }
+      const other = els.find((el) => el !== "H");
+      if (els.includes("H") && other && other in ANION_CHARGE) {
+        return {
+          type: "synthesis",
+          products: [compoundFormula({ base: "H", charge: 1 }, { base: other, charge: ANION_CHARGE[other] })],
+          reason: `Hydrogen combines with ${other}.`,
+        };
+      }
+      return null;
+    }
+    // Iron burns in O2 or halogens to iron(III).
+    const charge = metal === "Fe" && nonmetal !== "S" ? 3 : cationCharge(metal);
+    return {
+      type: "synthesis",
+      products: [compoundFormula({ base: metal, charge }, { base: nonmetal, charge: ANION_CHARGE[nonmetal] })],
+      reason: `${metal} forms a ${charge}+ ion and ${nonmetal} a ${-ANION_CHARGE[nonmetal]}− ion; they combine into one compound.`,
+    };
+  }
+
+  // Oxide + water, or metal oxide + nonmetal oxide.
+  const water = formulas.includes("H2O");
+  const acidOxide = formulas.find((f) => f in ACID_ANHYDRIDES);
+  const metalOxide = formulas.map(ionPair).find((p) => p && p.anion.base === "O" && isMetal(p.cation.element!));
+  if (water && acidOxide) {
+    const anion = ACID_ANHYDRIDES[acidOxide];
+    const product = compoundFormula({ base: "H", charge: 1 }, { base: anion, charge: anion === "NO3" ? -1 : -2 });
+    return { type: "synthesis", products: [product], reason: `${acidOxide} is an acidic oxide; with water it forms ${product}.` };
+  }
+  if (water && metalOxide) {
+    const product = compoundFormula(metalOxide.cation, { base: "OH", charge: -1 });
+    return { type: "synthesis", products: [product], reason: `A metal oxide with water forms the hydroxide ${product}.` };
+  }
+  if (acidOxide && metalOxide) {
+    const anion = ACID_ANHYDRIDES[acidOxide];
+    const product = compoundFormula(metalOxide.cation, { base: anion, charge: anion === "NO3" ? -1 : -2 });
+    return { type: "synthesis", products: [product], reason: `A basic and an acidic oxide combine into the salt ${product}.` };
+  }
+  return null;
+}
+
+function decomposition(formulas: string[]): Guess | null {
+  if (formulas.length !== 1) return null;
+  const [f] = formulas;
+  if (f === "H2O2") return { type: "decomposition", products: ["H2O", "O2"], reason: "Hydrogen peroxide breaks down to water and oxygen." };
+  if (settle(f).length > 1) return { type: "decomposition", products: settle(f), reason: `${f} is unstable and falls apart.` };
+
+  const pair = ionPair(f);
+  if (pair && pair.cation.element && isMetal(pair.cation.element)) {
+    const { cation, anion } = pair;
+    const oxide = compoundFormula(cation, { base: "O", charge: -2 });
+    if (anion.base === "CO3") {
+      return { type: "decomposition", products: [oxide, "CO2"], reason: "Metal carbonates decompose on heating to the oxide and CO2." };
+    }
+    if (anion.base === "ClO3") {
+      return {
+        type: "decomposition",
+        products: [compoundFormula(cation, { base: "Cl", charge: -1 }), "O2"],
+        reason: "Metal chlorates decompose on heating to the chloride and oxygen.",
+      };
+    }
+    if (anion.base === "OH" && getElement(cation.element!)?.group !== 1) {
+      return { type: "decomposition", products: [oxide, "H2O"], reason: "Metal hydroxides decompose on heating to the oxide and water." };
+    }
+  }
+
+  const els = Object.keys(countElementsInFormula(f));
+  if (els.length === 2 && !formulaCharge(f)) {
+    return {
+      type: "decomposition",
+      products: els.map(elementFormula),
+      reason: `A binary compound breaks down into its elements.`,
+    };
+  }
+  return null;
+}
+
+const RULES = [combustion, neutralization, singleReplacement, doubleReplacement, synthesis, decomposition];
+
+/**
+ * The reactants of an equation written as a prediction request
+ * ("Zn + CuSO4 ->"): one arrow, nothing after it and no formula errors.
+ * Null for anything else.
+ */
+export function predictionInput(parsed: ReturnType<typeof parseEquation>): string[] | null {
+  const { equation, diagnostics } = parsed;
+  if (!equation || !equation.left.length || equation.right.length) return null;
+  return diagnostics.some((d) => d.severity === "error") ? null : equation.left;
+}
+
+/**
+ * Predicts the products for the given reactants (raw species strings from
+ * splitEquation) and balances the result. Throws PredictionError when no
+ * rule applies or the reactants are known not to react.
+ */
+export function predictProducts(leftRaw: string[]): Prediction {
+  const left = leftRaw.map((raw) => parseSpecies(raw).formula);
+  if (!left.length) throw new PredictionError("Enter the reactants first.");
+  for (const f of left) {
+    const problem = formulaDiagnostics(f).find((d) => d.severity === "error");
+    if (problem) throw new PredictionError(`Fix ${f} first: ${problem.message}.`);
+  }
+  let guess: Guess | null = null;
+  for (const rule of RULES) {
+    guess = rule(left);
+    if (guess) break;
+  }
+  if (!guess) {
+    throw new PredictionError("These reactants do not match a reaction type that can be predicted.");
+  }
+  const right = Array.from(new Set(guess.products));
+  const coeffs = solveEquation(left, right, countElementsInFormula, formulaCharge);
+  if (!coeffs) throw new PredictionError(`The predicted products (${right.join(", ")}) cannot be balanced.`);
+  return { type: guess.type, left, right, coeffs, reason: guess.reason };
+}
@@ -0,0 +1,323 @@
+// lib/chem/redox.ts
+//
+// Ion-electron (half-reaction) balancing for skeleton redox equations that
+// leave out H2O, H+/OH- and electrons. Each half is balanced the way it is
+// taught — other atoms, then O with H2O, H with H+, charge with e- (and OH- in
+// basic solution) — and every intermediate step is returned for display.
+// Molecular skeletons are first cut down to the species that actually change
+// oxidation number, so KMnO4 + HCl works like MnO4- + Cl-.
+
+import { countElementsInFormula, formulaCharge } from "./parser";
+import { analyzeBalanceability } from "./solver";
+import { dissociate } from "./ionic";
+import { assignOxidationStates, type OxidationStates } from "./oxidation";
+
+export type Medium = "acidic" | "basic";
+
+export type Term = { coeff: number; formula: string };
+export type Reaction = { left: Term[]; right: Term[] };
+export type RedoxStep = { title: string; reaction: Reaction };
+
+export type HalfReaction = {
+  kind: "oxidation" | "reduction";
+  electrons: number;
+  steps: RedoxStep[];
+  reaction: Reaction;
+};
+
+export type RedoxResult = {
+  medium: Medium;
+  skeleton: Reaction; // net ionic skeleton the halves are taken from
+  halves: HalfReaction[];
+  steps: RedoxStep[]; // combining the halves
+  reaction: Reaction;
+};
+
+export class RedoxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RedoxError";
+  }
+}
+
+const WATER = "H2O";
+const PROTON = "H^+";
+const HYDROXIDE = "OH^-";
+const ELECTRON = "e-";
+
+// Species the method supplies itself; copies in the skeleton are dropped
+// unless they take part in the electron transfer (see ionicSkeleton).
+function mediumRole(formula: string): string | null {
+  const c = countElementsInFormula(formula);
+  const q = formulaCharge(formula);
+  const is = (h: number, o: number) =>
+    Object.keys(c).length === (h ? 1 : 0) + (o ? 1 : 0) && (c.H || 0) === h && (c.O || 0) === o;
+  if (is(2, 1) && q === 0) return WATER;
+  if (is(1, 0) && q === 1) return PROTON;
+  if (is(1, 1) && q === -1) return HYDROXIDE;
+  if (is(0, 0) && q === -1) return ELECTRON;
+  return null;
+}
+
+// Elements that tie species into the same half: those other than H and O,
+// preferring ones that change oxidation number (Mn, not K, in KMnO4). Species
+// made only of H and O are tied by whichever of H and O changes (H2O2, O2,
+// H2), or by O.
+function keyElements(formula: string, redox: Set<string>): string[] {
+  const els = Object.keys(countElementsInFormula(formula));
+  const heavy = els.filter((e) => e !== "H" && e !== "O");
+  const active = heavy.filter((e) => redox.has(e));
+  if (active.length) return active;
+  if (heavy.length) return heavy;
+  const light = els.filter((e) => redox.has(e));
+  return light.length ? light : els.filter((e) => e === "O");
+}
+
+function safeStates(formula: string): OxidationStates | null {
+  try {
+    return assignOxidationStates(formula);
+  } catch {
+    return null;
+  }
+}
+
+type Skeleton = { left: string[]; right: string[]; redox: Set<string> };
+
+// Net ionic skeleton: strong electrolytes are split into their ions, products
+// already present as reactants are dropped (the Cl- of KCl when HCl is the
+// reducing agent), and so are species in which no element changes oxidation
+// number (K+, SO4^2-). H2O, H+ and OH- are left to the method unless they hold
+// an atom in a state no other species on the other side has, like the H2O in
+// H2O2 -> H2O + O2.
+function ionicSkeleton(leftFormulas: string[], rightFormulas: string[]): Skeleton {
+  const expand = (formulas: string[]) => {
+    const out: string[] = [];
+    for (const f of formulas) {
+      const d = dissociate(f);
+      for (const x of d.dissociates ? d.ions.map((i) => i.formula) : [f]) if (!out.includes(x)) out.push(x);
+    }
+    return out;
+  };
+  const left = expand(leftFormulas);
+  const right = expand(rightFormulas).filter((f) => !left.includes(f));
+
+  const states = new Map([...left, ...right].map((f) => [f, safeStates(f)] as const));
+  const seen = new Map<string, Set<number>>();
+  for (const st of states.values()) {
+    for (const [el, n] of Object.entries(st ?? {})) {
+      if (!seen.has(el)) seen.set(el, new Set());
+      seen.get(el)!.add(Math.round(n * 1e6) / 1e6);
+    }
+  }
+  const redox = new Set([...seen].filter(([, ns]) => ns.size > 1).map(([el]) => el));
+  if (!redox.size) {
+    throw new RedoxError("No element changes its oxidation number, so this is not a redox reaction");
+  }
+
+  const sameState = (g: string, el: string, n: number) =>
+    !mediumRole(g) && Math.abs((states.get(g)?.[el] ?? NaN) - n) < 1e-6;
+  const keep = (f: string, other: string[]) => {
+    const st = states.get(f);
+    const role = mediumRole(f);
+    if (role === ELECTRON) return false;
+    if (!st) return true;
+    const changing = Object.entries(st).filter(([el]) => redox.has(el));
+    if (!role) return changing.length > 0;
+    return changing.some(([el, n]) => !other.some((g) => sameState(g, el, n)));
+  };
+  return {
+    left: left.filter((f) => keep(f, right)),
+    right: right.filter((f) => keep(f, left)),
+    redox,
+  };
+}
+
+/* ---------- signed half-reaction maps: + = left, − = right ---------- */
+
+type Signed = Map<string, number>;
+
+function add(m: Signed, formula: string, k: number) {
+  m.set(formula, (m.get(formula) || 0) + k);
+  if (m.get(formula) === 0) m.delete(formula);
+}
+
+// Terms follow `order` when given (unlisted formulas keep insertion order, last).
+function toReaction(m: Signed, order: string[] = []): Reaction {
+  const rank = (f: string) => (order.includes(f) ? order.indexOf(f) : order.length);
+  const entries = [...m].sort(([a], [b]) => rank(a) - rank(b));
+  const left: Term[] = [];
+  const right: Term[] = [];
+  for (const [formula, k] of entries) {
+    if (k > 0) left.push({ coeff: k, formula });
+    if (k < 0) right.push({ coeff: -k, formula });
+  }
+  return { left, right };
+}
+
+// Net (left − right) count of an element, or of charge when el is null.
+function imbalance(m: Signed, el: string | null) {
+  let d = 0;
+  for (const [formula, k] of m) {
+    d += k * (el === null ? formulaCharge(formula) : countElementsInFormula(formula)[el] || 0);
+  }
+  return d;
+}
+
+function gcd(a: number, b: number): number {
+  a = Math.abs(a);
+  b = Math.abs(b);
+  while (b) [a, b] = [b, a % b];
+  return a;
+}
+
+/* ---------- splitting the skeleton into halves ---------- */
+
+// Union species that share a key element; each connected group is one half.
+// A single group with one species on one side and two on the other is a
+// disproportionation (or comproportionation) and is split around that species.
+function splitHalves(
+  left: string[],
+  right: string[],
+  redox: Set<string>
+): Array<{ left: string[]; right: string[] }> {
+  const all = [...left.map((f) => ({ f, side: 0 })), ...right.map((f) => ({ f, side: 1 }))];
+  const parent = all.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const owner = new Map<string, number>();
+  all.forEach(({ f }, i) => {
+    for (const el of keyElements(f, redox)) {
+      if (owner.has(el)) parent[find(i)] = find(owner.get(el)!);
+      else owner.set(el, i);
+    }
+  });
+
+  const groups = new Map<number, { left: string[]; right: string[] }>();
+  all.forEach(({ f, side }, i) => {
+    const g = groups.get(find(i)) ?? { left: [], right: [] };
+    (side === 0 ? g.left : g.right).push(f);
+    groups.set(find(i), g);
+  });
+  const halves = [...groups.values()];
+
+  if (halves.length === 1) {
+    const [h] = halves;
+    if (h.left.length === 1 && h.right.length === 2) {
+      return h.right.map((p) => ({ left: [h.left[0]], right: [p] }));
+    }
+    if (h.right.length === 1 && h.left.length === 2) {
+      return h.left.map((r) => ({ left: [r], right: [h.right[0]] }));
+    }
+  }
+  if (halves.length !== 2 || halves.some((h) => !h.left.length || !h.right.length)) {
+    throw new RedoxError(
+      "Could not split the equation into an oxidation and a reduction half-reaction"
+    );
+  }
+  return halves;
+}
+
+/* ---------- balancing one half ---------- */
+
+function balanceHalf(
+  half: { left: string[]; right: string[] },
+  medium: Medium,
+  redox: Set<string>
+): HalfReaction {
+  const steps: RedoxStep[] = [];
+  const m: Signed = new Map();
+  half.left.forEach((f) => add(m, f, 1));
+  half.right.forEach((f) => add(m, f, -1));
+  steps.push({ title: "Skeleton half-reaction", reaction: toReaction(m) });
+
+  // 1. Atoms other than O and H (O too if nothing else is there).
+  const keys = new Set([...half.left, ...half.right].flatMap((f) => keyElements(f, redox)));
+  const keyCounts = (f: string) =>
+    Object.fromEntries(Object.entries(countElementsInFormula(f)).filter(([el]) => keys.has(el)));
+  const { suggestion } = analyzeBalanceability(half.left, half.right, keyCounts);
+  if (!suggestion) {
+    throw new RedoxError(`Cannot balance ${[...keys].join(", ")} in ${half.left.join(" + ")} → ${half.right.join(" + ")}`);
+  }
+  m.clear();
+  half.left.forEach((f, i) => add(m, f, suggestion.left[i]));
+  half.right.forEach((f, i) => add(m, f, -suggestion.right[i]));
+  steps.push({ title: `Balance ${[...keys].join(", ")}`, reaction: toReaction(m) });
+
+  // 2. O with H2O on the O-poor side.
+  const dO = imbalance(m, "O");
+  if (dO) {
+    add(m, WATER, -dO);
+    steps.push({ title: `Add ${Math.abs(dO)} H2O to balance O`, reaction: toReaction(m) });
+  }
+
+  // 3. H with H+ on the H-poor side.
+  const dH = imbalance(m, "H");
+  if (dH) {
+    add(m, PROTON, -dH);
+    steps.push({ title: `Add ${Math.abs(dH)} H+ to balance H`, reaction: toReaction(m) });
+  }
+
+  // 4. Charge with electrons on the more positive side.
+  const dq = imbalance(m, null);
+  if (!dq) {
+    throw new RedoxError(`${half.left.join(" + ")} → ${half.right.join(" + ")} is not an oxidation or a reduction`);
+  }
+  add(m, ELECTRON, dq);
+  steps.push({ title: `Add ${Math.abs(dq)} e- to balance charge`, reaction: toReaction(m) });
+
+  // 5. Basic solution: OH- on both sides turns every H+ into H2O.
+  const h = m.get(PROTON) || 0;
+  if (medium === "basic" && h) {
+    m.delete(PROTON);
+    add(m, WATER, h);
+    add(m, HYDROXIDE, -h);
+    steps.push({
+      title: `Add ${Math.abs(h)} OH- to both sides; H+ + OH- → H2O`,
+      reaction: toReaction(m),
+    });
+  }
+
+  return {
+    kind: dq > 0 ? "reduction" : "oxidation",
+    electrons: Math.abs(dq),
+    steps,
+    reaction: toReaction(m),
+  };
+}
+
+/* ---------- public API ---------- */
+
+export function balanceRedox(
+  leftFormulas: string[],
+  rightFormulas: string[],
+  medium: Medium = "acidic"
+): RedoxResult {
+  const { left, right, redox } = ionicSkeleton(leftFormulas, rightFormulas);
+  const halves = splitHalves(left, right, redox)
+    .map((h) => balanceHalf(h, medium, redox))
+    .sort((a, b) => a.kind.localeCompare(b.kind));
+
+  if (halves[0].kind !== "oxidation" || halves[1].kind !== "reduction") {
+    throw new RedoxError("Both halves are " + halves[0].kind + "s; nothing gains the electrons");
+  }
+
+  // Multiply so both halves move the same number of electrons, then add.
+  const electrons = halves[0].electrons * halves[1].electrons / gcd(halves[0].electrons, halves[1].electrons);
+  const steps: RedoxStep[] = [];
+  const total: Signed = new Map();
+  for (const h of halves) {
+    const k = electrons / h.electrons;
+    const scaled: Signed = new Map();
+    for (const t of h.reaction.left) add(scaled, t.formula, k * t.coeff);
+    for (const t of h.reaction.right) add(scaled, t.formula, -k * t.coeff);
+    steps.push({ title: `Multiply the ${h.kind} by ${k} (${electrons} e-)`, reaction: toReaction(scaled) });
+    for (const [f, c] of scaled) add(total, f, c);
+  }
+
+  const g = [...total.values()].reduce((acc, v) => gcd(acc, v), 0) || 1;
+  for (const [f, c] of total) total.set(f, c / g);
+  const reaction = toReaction(total, [...left, ...right, WATER, PROTON, HYDROXIDE]);
+  steps.push({ title: "Add the halves and cancel electrons and repeated species", reaction });
+
+  const skeleton = toReaction(new Map([...left.map((f) => [f, 1] as const), ...right.map((f) => [f, -1] as const)]));
+  return { medium, skeleton, halves, steps, reaction };
+}
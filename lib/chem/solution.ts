@@ -0,0 +1,104 @@
+// lib/chem/solution.ts
+//
+// Solution stoichiometry: moles from molarity × volume, and titrations. At the
+// equivalence point the titrant and analyte have reacted in the ratio of
+// their balanced coefficients, so one measured volume fixes the other side.
+
+import { fromLiters, toLiters, type VolumeUnit } from "./gas";
+
+export type Volume = { value: number; unit: VolumeUnit };
+
+export class SolutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SolutionError";
+  }
+}
+
+function liters(volume: Volume, what: string) {
+  if (!(volume.value > 0) || !Number.isFinite(volume.value)) {
+    throw new SolutionError(`The ${what} volume must be a positive number.`);
+  }
+  return toLiters(volume.value, volume.unit);
+}
+
+function checkMolarity(molarity: number, what: string) {
+  if (!(molarity > 0) || !Number.isFinite(molarity)) {
+    throw new SolutionError(`The ${what} concentration must be a positive number.`);
+  }
+}
+
+// n = M × V
+export function solutionMoles(molarity: number, volume: Volume): number {
+  checkMolarity(molarity, "solution");
+  return molarity * liters(volume, "solution");
+}
+
+// V = n / M
+export function solutionVolume(moles: number, molarity: number, unit: VolumeUnit = "L"): number {
+  checkMolarity(molarity, "solution");
+  return fromLiters(moles / molarity, unit);
+}
+
+export type TitrationSpecies = { formula: string; coeff: number };
+
+export type TitrationInput = {
+  titrant: TitrationSpecies;
+  analyte: TitrationSpecies;
+  titrantMolarity: number;
+  analyteVolume: Volume;
+  // Give one: the titrant volume delivered at the end point (to find the
+  // analyte concentration), or the analyte concentration (to find the
+  // equivalence volume).
+  titrantVolume?: Volume;
+  analyteMolarity?: number;
+};
+
+export type TitrationResult = {
+  titrantMoles: number;
+  analyteMoles: number;
+  analyteMolarity: number; // mol/L
+  equivalenceVolume: number; // L of titrant
+  totalVolume: number; // L of solution at the equivalence point
+};
+
+/**
+ * Titration from a balanced equation: the analyte concentration from the
+ * titrant volume at the end point, or the equivalence volume from a known
+ * analyte concentration. Throws SolutionError for missing or bad input.
+ */
+export function titrate(input: TitrationInput): TitrationResult {
+  const { titrant, analyte, titrantMolarity } = input;
+  if (!(titrant.coeff > 0) || !(analyte.coeff > 0)) {
+    throw new SolutionError("Balance the equation first: every coefficient must be positive.");
+  }
+  if (titrant.formula === analyte.formula) {
+    throw new SolutionError("Pick different species for the titrant and the analyte.");
+  }
+  checkMolarity(titrantMolarity, "titrant");
+  const analyteLiters = liters(input.analyteVolume, "analyte");
+  // mol analyte per mol titrant
+  const ratio = analyte.coeff / titrant.coeff;
+
+  let titrantMoles: number;
+  let analyteMoles: number;
+  if (input.titrantVolume) {
+    titrantMoles = titrantMolarity * liters(input.titrantVolume, "titrant");
+    analyteMoles = titrantMoles * ratio;
+  } else if (input.analyteMolarity !== undefined) {
+    checkMolarity(input.analyteMolarity, "analyte");
+    analyteMoles = input.analyteMolarity * analyteLiters;
+    titrantMoles = analyteMoles / ratio;
+  } else {
+    throw new SolutionError("Give the titrant volume at the end point or the analyte concentration.");
+  }
+
+  const equivalenceVolume = titrantMoles / titrantMolarity;
+  return {
+    titrantMoles,
+    analyteMoles,
+    analyteMolarity: analyteMoles / analyteLiters,
+    equivalenceVolume,
+    totalVolume: analyteLiters + equivalenceVolume,
+  };
+}
@@ -3,13 +3,18 @@
 // Build the element matrix A where rows = elements, cols = species.
 // Convention: left species columns are +counts, right species columns are -counts.
 // We want integer x with A x = 0, x ≠ 0, and positive coefficients on both sides.
+// When any species is charged (chargeFn given), an extra CHARGE_ROW enforces
+// charge conservation the same way an element row enforces mass balance.
 
 export type Side = "left" | "right";
 
+export const CHARGE_ROW = "charge";
+
 export function buildElementMatrix(
   leftFormulas: string[],
   rightFormulas: string[],
-  countFn: (formula: string) => Record<string, number>
+  countFn: (formula: string) => Record<string, number>,
+  chargeFn?: (formula: string) => number
 ) {
   const elements = Array.from(
     new Set(
@@ -19,8 +24,14 @@ export function buildElementMatrix(
     )
   ).sort((a, b) => a.localeCompare(b));
 
+  const charges = chargeFn
+    ? leftFormulas.map(chargeFn).concat(rightFormulas.map((f) => -chargeFn(f)))
+    : [];
+  const hasCharge = charges.some((q) => q !== 0);
+  const rowLabels = hasCharge ? [...elements, CHARGE_ROW] : elements;
+
   const cols = leftFormulas.length + rightFormulas.length;
-  const rows = elements.length;
+  const rows = rowLabels.length;
   const A: number[][] = Array.from({ length: rows }, () =>
     Array(cols).fill(0)
   );
@@ -35,38 +46,50 @@ export function buildElementMatrix(
     const col = leftFormulas.length + k;
     elements.forEach((el, i) => (A[i][col] = -(counts[el] || 0)));
   });
+  if (hasCharge) A[rows - 1] = charges;
 
-  return { A, elements };
+  return { A, elements, rowLabels };
 }
 
-/* ---------- tiny rational-arithmetic helpers (exact) ---------- */
+/* ---------- tiny rational-arithmetic helpers (exact, BigInt) ---------- */
+
+// Everything from elimination to the final sanity check runs on BigInt, so
+// large organic or coordination-compound equations cannot overflow 2^53.
+// Coefficients only become `number`s again at the public boundary.
+
+type Frac = { num: bigint; den: bigint }; // den > 0, always reduced
 
-type Frac = { num: number; den: number }; // den > 0, always reduced
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
 
-function gcd(a: number, b: number): number {
-  a = Math.abs(a);
-  b = Math.abs(b);
-  while (b !== 0) {
+const bAbs = (a: bigint) => (a < ZERO ? -a : a);
+
+function gcd(a: bigint, b: bigint): bigint {
+  a = bAbs(a);
+  b = bAbs(b);
+  while (b !== ZERO) {
     const t = a % b;
     a = b;
     b = t;
   }
-  return a || 1;
+  return a || ONE;
 }
 
-function lcm(a: number, b: number): number {
+function lcm(a: bigint, b: bigint): bigint {
   return (a / gcd(a, b)) * b;
 }
 
-function makeFrac(num: number, den: number = 1): Frac {
-  if (den === 0) throw new Error("Zero denominator");
-  if (den < 0) {
-    num = -num;
-    den = -den;
+function makeFrac(num: bigint | number, den: bigint | number = ONE): Frac {
+  let n = BigInt(num);
+  let d = BigInt(den);
+  if (d === ZERO) throw new Error("Zero denominator");
+  if (d < ZERO) {
+    n = -n;
+    d = -d;
   }
-  if (num === 0) return { num: 0, den: 1 };
-  const g = gcd(num, den);
-  return { num: num / g, den: den / g };
+  if (n === ZERO) return { num: ZERO, den: ONE };
+  const g = gcd(n, d);
+  return { num: n / g, den: d / g };
 }
 
 function fAdd(a: Frac, b: Frac): Frac {
@@ -82,156 +105,648 @@ function fDiv(a: Frac, b: Frac): Frac {
   return makeFrac(a.num * b.den, a.den * b.num);
 }
 
-/* ---------- solve A x = 0 by treating last variable as 1 ---------- */
+// BigInt vector -> number[], or null if any entry is not a safe integer.
+function toSafeNumbers(vec: bigint[]): number[] | null {
+  const max = BigInt(Number.MAX_SAFE_INTEGER);
+  if (vec.some((v) => bAbs(v) > max)) return null;
+  return vec.map(Number);
+}
 
-function solveRationalForLastColumn(A: number[][]): Frac[] | null {
-  const m = A.length;
-  const n = A[0]?.length ?? 0;
-  if (n <= 1) return null;
+/* ---------- reduced row echelon form & null space of A ---------- */
 
-  const nvars = n - 1;
+const fStr = (f: Frac) => (f.den === ONE ? `${f.num}` : `${f.num}/${f.den}`);
+const snapshot = (R: Frac[][]) => R.map((r) => r.map(fStr));
 
-  // B x' = b  where B = first n-1 columns, b = -last column
-  const B: Frac[][] = Array.from({ length: m }, (_, i) =>
-    Array.from({ length: nvars }, (_, j) => makeFrac(A[i][j]))
-  );
-  const b: Frac[] = Array.from({ length: m }, (_, i) =>
-    makeFrac(-A[i][n - 1])
-  );
+// One row operation of the elimination, with the matrix right after it.
+// Rows are 0-based; `text` is the operation as a student would write it.
+export type RowOperation = {
+  op: "swap" | "scale" | "eliminate";
+  text: string;
+  pivot: { row: number; col: number };
+  matrix: string[][];
+};
 
-  let row = 0;
-  const pivotRowForCol: number[] = Array(nvars).fill(-1);
+// When `trace` is given, every swap/scale/elimination is appended to it.
+function rref(A: number[][], trace?: RowOperation[]): { R: Frac[][]; pivotCols: number[] } {
+  const m = A.length;
+  const n = A[0]?.length ?? 0;
+  const R: Frac[][] = A.map((r) => r.map((v) => makeFrac(v)));
+  const pivotCols: number[] = [];
+  const log = (op: RowOperation["op"], text: string, row: number, col: number) =>
+    trace?.push({ op, text, pivot: { row, col }, matrix: snapshot(R) });
 
-  for (let col = 0; col < nvars && row < m; col++) {
+  let row = 0;
+  for (let col = 0; col < n && row < m; col++) {
     // find pivot
     let pivot = row;
-    while (pivot < m && B[pivot][col].num === 0) pivot++;
+    while (pivot < m && R[pivot][col].num === ZERO) pivot++;
     if (pivot === m) continue;
 
     // swap
     if (pivot !== row) {
-      [B[pivot], B[row]] = [B[row], B[pivot]];
-      [b[pivot], b[row]] = [b[row], b[pivot]];
+      [R[pivot], R[row]] = [R[row], R[pivot]];
+      log("swap", `R${row + 1} ↔ R${pivot + 1}`, row, col);
     }
 
     // normalize pivot row so pivot == 1
-    const piv = B[row][col];
-    for (let j = col; j < nvars; j++) B[row][j] = fDiv(B[row][j], piv);
-    b[row] = fDiv(b[row], piv);
+    const piv = R[row][col];
+    for (let j = col; j < n; j++) R[row][j] = fDiv(R[row][j], piv);
+    if (piv.num !== piv.den) log("scale", `R${row + 1} ← R${row + 1} ÷ ${fStr(piv)}`, row, col);
 
     // eliminate in other rows
     for (let r = 0; r < m; r++) {
       if (r === row) continue;
-      const factor = B[r][col];
-      if (factor.num === 0) continue;
-      for (let j = col; j < nvars; j++) {
-        B[r][j] = fSub(B[r][j], fMul(factor, B[row][j]));
+      const factor = R[r][col];
+      if (factor.num === ZERO) continue;
+      for (let j = col; j < n; j++) {
+        R[r][j] = fSub(R[r][j], fMul(factor, R[row][j]));
       }
-      b[r] = fSub(b[r], fMul(factor, b[row]));
+      const k = factor.num < ZERO ? makeFrac(-factor.num, factor.den) : factor;
+      const by = k.num === k.den ? "" : `${k.den === ONE ? fStr(k) : `(${fStr(k)})`}·`;
+      log("eliminate", `R${r + 1} ← R${r + 1} ${factor.num < ZERO ? "+" : "−"} ${by}R${row + 1}`, row, col);
     }
 
-    pivotRowForCol[col] = row;
+    pivotCols.push(col);
     row++;
   }
 
-  // Build one particular solution with free vars = 0
-  const x: Frac[] = Array.from({ length: nvars }, () => makeFrac(0));
-  for (let c = 0; c < nvars; c++) {
-    const r = pivotRowForCol[c];
-    if (r !== -1) x[c] = b[r];
-  }
+  return { R, pivotCols };
+}
 
-  // last variable set to 1
-  x.push(makeFrac(1));
-  return x;
+// Scale a rational vector to the primitive integer vector on the same line,
+// oriented so that most entries are positive unless `orient` is false.
+function toIntegerVector(fv: Frac[], orient = true): bigint[] {
+  let commonDen = ONE;
+  for (const f of fv) commonDen = lcm(commonDen, f.den);
+
+  let vec = fv.map((f) => f.num * (commonDen / f.den));
+  const g = vec.reduce((acc, v) => (v !== ZERO ? gcd(acc, v) : acc), ZERO) || ONE;
+  vec = vec.map((v) => v / g);
+  if (!orient) return vec;
+
+  const neg = vec.filter((v) => v < ZERO).length;
+  const pos = vec.filter((v) => v > ZERO).length;
+  return neg > pos ? vec.map((v) => -v) : vec;
 }
 
-function fracsToIntegerCoeffs(
-  fv: Frac[],
-  leftLen: number,
-  rightLen: number,
-  A: number[][]
-): { left: number[]; right: number[] } | null {
-  const n = fv.length;
-  if (n === 0) return null;
+function satisfies(A: number[][], x: bigint[]) {
+  return A.every(
+    (row) => row.reduce((s, a, j) => s + BigInt(a) * x[j], ZERO) === ZERO
+  );
+}
 
-  // common denominator (LCM of all dens)
-  let commonDen = 1;
-  for (const f of fv) commonDen = lcm(commonDen, f.den);
+// Rational null-space vectors, one per free column f of rref(A), with x_f = 1
+// and every other free coordinate 0. Any solution x equals Σ x_f · v_f.
+function freeColumnVectors(A: number[][]): { cols: number[]; vectors: Frac[][] } {
+  const n = A[0]?.length ?? 0;
+  const { R, pivotCols } = rref(A);
+  const cols = Array.from({ length: n }, (_, c) => c).filter(
+    (c) => !pivotCols.includes(c)
+  );
 
-  // integer vector (might have negatives)
-  let vec = fv.map((f) => (f.num * (commonDen / f.den)) | 0);
+  const vectors = cols.map((f) => {
+    const v: Frac[] = Array.from({ length: n }, () => makeFrac(0));
+    v[f] = makeFrac(1);
+    pivotCols.forEach((c, r) => (v[c] = makeFrac(-R[r][f].num, R[r][f].den)));
+    return v;
+  });
+  return { cols, vectors };
+}
 
-  // all zero? no good
-  if (vec.every((v) => v === 0)) return null;
+// The vectors as integers, all or nothing: dropping one that does not fit in
+// a safe integer would leave fewer vectors than the nullity.
+function integerBasis(vectors: Frac[][]): number[][] | null {
+  const basis = vectors.map((v) => toSafeNumbers(toIntegerVector(v)));
+  return basis.every(Boolean) ? basis : null;
+}
 
-  // flip sign if most entries are negative
-  const neg = vec.filter((v) => v < 0).length;
-  const pos = vec.filter((v) => v > 0).length;
-  if (neg > pos) vec = vec.map((v) => -v);
+// One integer vector per free column of rref(A); together they span every
+// way of balancing the species, so their count is the nullity of A. Null if
+// an entry is too large to represent exactly.
+export function nullSpaceBasis(A: number[][]): number[][] | null {
+  return integerBasis(freeColumnVectors(A).vectors);
+}
 
-  const absVec = vec.map((v) => Math.abs(v));
-  const g = absVec.reduce((acc, v) => (v ? gcd(acc, v) : acc), absVec[0] || 1);
-  const final = absVec.map((v) => v / g);
+/* ---------- searching the null space for usable coefficients ---------- */
 
-  // sanity check: A * final == 0 exactly
-  for (let i = 0; i < A.length; i++) {
-    let s = 0;
-    for (let j = 0; j < A[i].length; j++) {
-      s += A[i][j] * final[j];
-    }
-    if (s !== 0) {
-      return null;
+// How many free-coordinate tuples a search may visit before giving up.
+const SEARCH_BUDGET = 5000;
+
+// Visit the primitive integer solution for every tuple of free coordinates in
+// [1, B]^k, or [-B, B]^k when `signed` (k = nullity), with B as large as the
+// budget allows. With k = 1 there is only one direction to visit.
+function forEachCandidate(
+  vectors: Frac[][],
+  signed: boolean,
+  visit: (x: bigint[]) => void,
+  budget = SEARCH_BUDGET
+) {
+  const k = vectors.length;
+  if (k === 0) return;
+  const n = vectors[0].length;
+  const side = Math.floor(Math.pow(budget, 1 / k));
+  const B = k === 1 ? 1 : Math.max(1, signed ? Math.floor((side - 1) / 2) : side);
+  const lo = signed && k > 1 ? -B : 1;
+
+  // Clear the denominators once: a positive multiple has the same primitive
+  // solution, and integer sums are much cheaper than fraction arithmetic.
+  const den = vectors.reduce((acc, v) => v.reduce((d, f) => lcm(d, f.den), acc), ONE);
+  const ints = vectors.map((v) => v.map((f) => f.num * (den / f.den)));
+
+  const t = Array(k).fill(lo);
+  for (;;) {
+    if (t.some((v) => v !== 0)) {
+      const x = Array.from({ length: n }, (_, j) =>
+        ints.reduce((acc, v, i) => acc + BigInt(t[i]) * v[j], ZERO)
+      );
+      const g = x.reduce((acc, v) => (v !== ZERO ? gcd(acc, v) : acc), ZERO) || ONE;
+      visit(x.map((v) => v / g));
     }
+    let i = 0;
+    while (i < k && t[i] === B) t[i++] = lo;
+    if (i === k) return;
+    t[i]++;
   }
+}
 
-  return {
-    left: final.slice(0, leftLen),
-    right: final.slice(leftLen),
+const sumAbs = (x: bigint[]) => x.reduce((s, v) => s + bAbs(v), ZERO);
+
+// Smallest (by coefficient sum) strictly positive integer solution, if any.
+// A positive solution has positive free coordinates, so only those are tried.
+function minimalPositiveSolution(vectors: Frac[][], budget = SEARCH_BUDGET): bigint[] | null {
+  let best: bigint[] | null = null;
+  forEachCandidate(vectors, false, (x) => {
+    if (x.every((v) => v > ZERO) && (!best || sumAbs(x) < sumAbs(best))) best = x;
+  }, budget);
+  return best;
+}
+
+export type SpeciesRef = { side: Side; index: number };
+
+export type BalanceFix = {
+  species: SpeciesRef[];
+  reaction: { left: number[]; right: number[] };
+};
+
+// When no all-positive solution exists, find the nearest ones that do work:
+// the fewest species to move across the arrow (negative entries), or the
+// fewest species to drop (zero entries).
+function explainInfeasible(
+  vectors: Frac[][],
+  leftLen: number
+): { move?: BalanceFix; drop?: BalanceFix } {
+  let move: bigint[] | null = null;
+  let drop: bigint[] | null = null;
+  const negative = (v: bigint) => v < ZERO;
+  const zero = (v: bigint) => v === ZERO;
+  const count = (x: bigint[], pred: (v: bigint) => boolean) => x.filter(pred).length;
+  const better = (x: bigint[], cur: bigint[] | null, pred: (v: bigint) => boolean) =>
+    !cur ||
+    count(x, pred) < count(cur, pred) ||
+    (count(x, pred) === count(cur, pred) && sumAbs(x) < sumAbs(cur));
+
+  forEachCandidate(vectors, true, (x) => {
+    for (const y of [x, x.map((v) => -v)]) {
+      if (!y.some(zero) && y.some(negative) && better(y, move, negative)) move = y;
+      if (!y.some(negative) && y.some(zero) && y.some((v) => v > ZERO) && better(y, drop, zero)) {
+        drop = y;
+      }
+    }
+  });
+
+  const toFix = (x: bigint[] | null, pred: (v: bigint) => boolean): BalanceFix | undefined => {
+    const safe = x && toSafeNumbers(x);
+    if (!safe) return undefined;
+    return {
+      species: x
+        .map((v, j) => (pred(v) ? refFor(j, leftLen) : null))
+        .filter(Boolean),
+      reaction: splitSides(safe, leftLen),
+    };
   };
+  return { move: toFix(move, negative), drop: toFix(drop, zero) };
+}
+
+function refFor(col: number, leftLen: number): SpeciesRef {
+  return col < leftLen
+    ? { side: "left", index: col }
+    : { side: "right", index: col - leftLen };
+}
+
+function splitSides(vec: number[], leftLen: number) {
+  return { left: vec.slice(0, leftLen), right: vec.slice(leftLen) };
 }
 
 /* ---------- Public helpers used by the UI ---------- */
 
 // Decide if an equation is balanceable with all species present.
-// Also returns a suggested set of coefficients if possible.
+// rank/nullity describe the element matrix; when nullity > 1 the equation is a
+// mix of several independent reactions, listed in `basis` (entries may be
+// negative, meaning that species belongs on the other side of that reaction);
+// it has exactly `nullity` entries, or none if they are too large to show.
+// Returns the smallest strictly positive integer coefficients if they exist;
+// otherwise `fixes` says which species would have to move sides or be dropped.
 export function analyzeBalanceability(
   leftFormulas: string[],
   rightFormulas: string[],
-  countFn: (f: string) => Record<string, number>
+  countFn: (f: string) => Record<string, number>,
+  chargeFn?: (f: string) => number
 ): {
   balanceableAllSpecies: boolean;
+  rank: number;
   nullity: number;
+  basis: Array<{ left: number[]; right: number[] }>;
   suggestion?: { left: number[]; right: number[] };
+  fixes?: { move?: BalanceFix; drop?: BalanceFix };
 } {
-  const { A } = buildElementMatrix(leftFormulas, rightFormulas, countFn);
-  if (A.length === 0 || (A[0]?.length ?? 0) === 0) {
-    return { balanceableAllSpecies: false, nullity: 0 };
+  const { A } = buildElementMatrix(leftFormulas, rightFormulas, countFn, chargeFn);
+  const n = A[0]?.length ?? 0;
+  if (A.length === 0 || n === 0) {
+    return { balanceableAllSpecies: false, rank: 0, nullity: 0, basis: [] };
+  }
+
+  const { vectors: free } = freeColumnVectors(A);
+  const nullity = free.length;
+  const rank = n - nullity;
+  const leftLen = leftFormulas.length;
+  const basis = (integerBasis(free) || []).map((v) => splitSides(v, leftLen));
+  if (nullity === 0) {
+    return { balanceableAllSpecies: false, rank, nullity, basis };
+  }
+
+  // Sanity check against A in exact arithmetic before trusting the answer.
+  const best = minimalPositiveSolution(free);
+  const coeffs = best && satisfies(A, best) ? toSafeNumbers(best) : null;
+  if (!coeffs) {
+    return {
+      balanceableAllSpecies: false,
+      rank,
+      nullity,
+      basis,
+      fixes: explainInfeasible(free, leftLen),
+    };
   }
 
-  const raw = solveRationalForLastColumn(A);
-  if (!raw) return { balanceableAllSpecies: false, nullity: 0 };
+  return {
+    balanceableAllSpecies: true,
+    rank,
+    nullity,
+    basis,
+    suggestion: splitSides(coeffs, leftLen),
+  };
+}
+
+/* ---------- why an equation cannot be balanced ---------- */
+
+export type BalanceDiagnostics = {
+  // Rows (elements or CHARGE_ROW) whose atoms or charge sit on one side only.
+  oneSided: Array<{ row: string; side: Side }>;
+  // Species no combination of the others can account for; they are forced to 0.
+  isolated: SpeciesRef[];
+  // Species made of the same atoms as a mix of others on their own side.
+  dependent: Array<{ species: SpeciesRef; from: Array<{ species: SpeciesRef; coeff: string }> }>;
+  // Rows whose removal would make the equation balanceable.
+  inconsistentRows: string[];
+  // Common species that balance the equation when added (one, else a pair);
+  // `reaction` lists the added species after the original ones on each side.
+  missing: Array<{ add: Array<{ formula: string; side: Side }>; reaction: { left: number[]; right: number[] } }>;
+};
+
+export const LIKELY_MISSING = ["H2O", "O2", "CO2", "H^+", "OH^-", "e-"];
+
+// Column j as a rational combination of the columns in `others`, or null.
+function asCombination(A: number[][], j: number, others: number[]): Frac[] | null {
+  if (!others.length) return null;
+  const sub = A.map((r) => [...others.map((k) => r[k]), -r[j]]);
+  const v = freeColumnVectors(sub).vectors.find((x) => x[others.length].num !== ZERO);
+  if (!v) return null;
+  const scale = v[others.length];
+  return others.map((_, i) => fDiv(v[i], scale));
+}
+
+// Diagnostics try many variants of the matrix, so each gets a smaller search.
+const DIAGNOSTIC_BUDGET = 2000;
+
+// Matrix entries are + on the left and − on the right, so a row with one
+// sign only has nothing to balance against.
+const oneSign = (r: number[]) => {
+  const nz = r.filter((v) => v !== 0);
+  return nz.length > 0 && (nz.every((v) => v > 0) || nz.every((v) => v < 0));
+};
 
+function positiveSolution(A: number[][]): bigint[] | null {
+  if (!A.length || A.some(oneSign)) return null;
+  const best = minimalPositiveSolution(freeColumnVectors(A).vectors, DIAGNOSTIC_BUDGET);
+  return best && satisfies(A, best) ? best : null;
+}
+
+/**
+ * Reasons an equation has no all-positive balance, read off the element
+ * matrix, plus the common species (H2O, O2, CO2, H+, OH-, e-) that would fix
+ * it if added. Meant for equations analyzeBalanceability rejects; on a
+ * balanceable one the lists are simply empty or unremarkable.
+ */
+export function diagnoseBalanceability(
+  leftFormulas: string[],
+  rightFormulas: string[],
+  countFn: (f: string) => Record<string, number>,
+  chargeFn?: (f: string) => number
+): BalanceDiagnostics {
+  const { A, rowLabels } = buildElementMatrix(leftFormulas, rightFormulas, countFn, chargeFn);
   const leftLen = leftFormulas.length;
-  const rightLen = rightFormulas.length;
+  const n = leftLen + rightFormulas.length;
+  const cols = Array.from({ length: n }, (_, j) => j);
+
+  const oneSided = A.flatMap((r, i) =>
+    oneSign(r) ? [{ row: rowLabels[i], side: (r.some((v) => v > 0) ? "left" : "right") as Side }] : []
+  );
 
-  const suggestion = fracsToIntegerCoeffs(raw, leftLen, rightLen, A);
-  if (!suggestion) return { balanceableAllSpecies: false, nullity: 0 };
+  const isolated = cols
+    .filter((j) => !asCombination(A, j, cols.filter((k) => k !== j)))
+    .map((j) => refFor(j, leftLen));
+
+  const dependent = cols.flatMap((j) => {
+    const same = cols.filter((k) => k !== j && k < leftLen === j < leftLen);
+    const combo = asCombination(A, j, same);
+    if (!combo) return [];
+    return [{
+      species: refFor(j, leftLen),
+      from: same
+        .map((k, i) => ({ species: refFor(k, leftLen), coeff: fStr(combo[i]) }))
+        .filter((t) => t.coeff !== "0"),
+    }];
+  });
 
-  return { balanceableAllSpecies: true, nullity: 1, suggestion };
+  const balanceable = !!positiveSolution(A);
+  const inconsistentRows = balanceable
+    ? []
+    : rowLabels.filter((_, i) => positiveSolution(A.filter((__, k) => k !== i)));
+
+  const missing: BalanceDiagnostics["missing"] = [];
+  const tryAdding = (add: Array<{ formula: string; side: Side }>) => {
+    const l = [...leftFormulas, ...add.filter((a) => a.side === "left").map((a) => a.formula)];
+    const r = [...rightFormulas, ...add.filter((a) => a.side === "right").map((a) => a.formula)];
+    const x = positiveSolution(buildElementMatrix(l, r, countFn, chargeFn).A);
+    const safe = x && toSafeNumbers(x);
+    if (safe) missing.push({ add, reaction: splitSides(safe, l.length) });
+  };
+  if (!balanceable) {
+    const present = new Set([...leftFormulas, ...rightFormulas]);
+    const options = LIKELY_MISSING.filter((f) => !present.has(f)).flatMap((formula) =>
+      (["left", "right"] as Side[]).map((side) => ({ formula, side }))
+    );
+    options.forEach((o) => tryAdding([o]));
+    if (!missing.length) {
+      options.forEach((a, i) =>
+        options.slice(i + 1).forEach((b) => {
+          // H+ and OH- together would just make water.
+          const pair = new Set([a.formula, b.formula]);
+          if (pair.size === 2 && !(pair.has("H^+") && pair.has("OH^-"))) tryAdding([a, b]);
+        })
+      );
+    }
+  }
+
+  return { oneSided, isolated, dependent, inconsistentRows, missing };
+}
+
+// Smallest strictly positive integer x with A·x = 0 for any integer matrix A
+// (not just element matrices), or null if there is none within the budget.
+export function smallestPositiveSolution(A: number[][]): number[] | null {
+  const n = A[0]?.length ?? 0;
+  if (!n) return null;
+  const best = minimalPositiveSolution(freeColumnVectors(A).vectors);
+  return best && satisfies(A, best) ? toSafeNumbers(best) : null;
+}
+
+// Weighted sum of integer reaction vectors, reduced by the common gcd, or null
+// if an entry is too large to represent exactly.
+export function combineReactions(vectors: number[][], weights: number[]): number[] | null {
+  const n = vectors[0]?.length ?? 0;
+  const sum = Array.from({ length: n }, (_, j) =>
+    vectors.reduce((s, v, i) => s + BigInt(weights[i] || 0) * BigInt(v[j]), ZERO)
+  );
+  const g = sum.reduce((acc, v) => (v !== ZERO ? gcd(acc, v) : acc), ZERO) || ONE;
+  return toSafeNumbers(sum.map((v) => v / g));
 }
 
 // High-level auto-solver used by the "Auto solve" button.
 export function solveEquation(
   leftFormulas: string[],
   rightFormulas: string[],
-  countFn: (f: string) => Record<string, number>
+  countFn: (f: string) => Record<string, number>,
+  chargeFn?: (f: string) => number
 ): { left: number[]; right: number[] } | null {
   const { balanceableAllSpecies, suggestion } = analyzeBalanceability(
     leftFormulas,
     rightFormulas,
-    countFn
+    countFn,
+    chargeFn
   );
   if (!balanceableAllSpecies || !suggestion) return null;
   return suggestion;
 }
+
+/* ---------- solving around user-pinned coefficients ---------- */
+
+export type Pins = { left: Array<number | null>; right: Array<number | null> };
+
+export type PinnedSolution =
+  | { ok: true; coefficients: { left: number[]; right: number[] } }
+  // `row` is the element (or CHARGE_ROW) the pins cannot balance.
+  | { ok: false; reason: "conflict"; row: string; message: string }
+  // The pins only work if every coefficient is scaled by `multiplier`.
+  | { ok: false; reason: "fractional"; multiplier: number; message: string }
+  | { ok: false; reason: "not-positive"; species: SpeciesRef[]; message: string }
+  | { ok: false; reason: "too-large"; message: string };
+
+// The system rows·x = rhs is inconsistent when the RREF of [rows | rhs]
+// has a pivot in the rhs column.
+function consistent(rows: number[][], rhs: number[]): boolean {
+  if (!rows.length) return true;
+  const k = rows[0].length;
+  return !rref(rows.map((r, i) => [...r, rhs[i]])).pivotCols.includes(k);
+}
+
+/**
+ * Fills in the coefficients that are not pinned so the equation balances,
+ * keeping every pinned value exactly as given. Among several completions the
+ * one with the smallest coefficient sum wins. When the pins rule out a
+ * balanced equation, says why: the element whose row cannot be satisfied, a
+ * common multiplier that would clear forced fractions, or the species that
+ * would need a zero or negative coefficient. Coefficients past
+ * Number.MAX_SAFE_INTEGER are reported as "too-large" rather than rounded.
+ */
+export function solveWithPins(
+  leftFormulas: string[],
+  rightFormulas: string[],
+  countFn: (f: string) => Record<string, number>,
+  pins: Pins,
+  chargeFn?: (f: string) => number
+): PinnedSolution {
+  const { A, rowLabels } = buildElementMatrix(leftFormulas, rightFormulas, countFn, chargeFn);
+  const leftLen = leftFormulas.length;
+  const n = leftLen + rightFormulas.length;
+  const pinned = [...pins.left.slice(0, leftLen), ...pins.right.slice(0, rightFormulas.length)];
+  const cols = Array.from({ length: n }, (_, j) => j);
+  const open = cols.filter((j) => pinned[j] == null);
+
+  // A_U x_U = rhs over the unpinned columns U, with rhs = −A_P x_P.
+  const AU = A.map((r) => open.map((j) => r[j]));
+  const rhs = A.map((r) => -cols.reduce((s, j) => s + (pinned[j] == null ? 0 : r[j] * pinned[j]!), 0));
+
+  if (!consistent(AU, rhs)) {
+    // A row no open coefficient touches is wrong on its own; otherwise name
+    // the first row that cannot be satisfied together with those above it.
+    const untouched = (i: number) => open.every((j) => A[i][j] === 0);
+    let bad = A.findIndex((_, i) => untouched(i) && rhs[i] !== 0);
+    if (bad < 0) bad = A.findIndex((_, i) => !consistent(AU.slice(0, i + 1), rhs.slice(0, i + 1)));
+    const row = rowLabels[bad];
+    const what = row === CHARGE_ROW ? "charge" : row;
+    return {
+      ok: false,
+      reason: "conflict",
+      row,
+      message: untouched(bad)
+        ? `The pinned coefficients fix ${what} and leave it unbalanced.`
+        : `No values of the other coefficients balance ${what} with these pins.`,
+    };
+  }
+
+  const tooLarge: PinnedSolution = {
+    ok: false,
+    reason: "too-large",
+    message: "These pins need coefficients too large to compute exactly.",
+  };
+  const withPins = (x: bigint[]): PinnedSolution => {
+    const all = cols.map((j) => (pinned[j] == null ? ZERO : BigInt(pinned[j]!)));
+    open.forEach((j, u) => (all[j] = x[u]));
+    const safe = toSafeNumbers(all);
+    return safe ? { ok: true, coefficients: splitSides(safe, leftLen) } : tooLarge;
+  };
+  if (!open.length) return withPins([]);
+
+  // Open coefficients are positive integers: enumerate the free ones of the
+  // reduced system within the search budget and derive the pivot ones.
+  const k = open.length;
+  const { R, pivotCols } = rref(AU.map((r, i) => [...r, rhs[i]]));
+  const freeU = Array.from({ length: k }, (_, u) => u).filter((u) => !pivotCols.includes(u));
+  const B = freeU.length ? Math.max(1, Math.floor(Math.pow(SEARCH_BUDGET, 1 / freeU.length))) : 1;
+  const valuesFor = (t: number[]) => {
+    const x: Frac[] = Array.from({ length: k }, () => makeFrac(0));
+    freeU.forEach((u, i) => (x[u] = makeFrac(t[i])));
+    pivotCols.forEach((c, r) => {
+      x[c] = freeU.reduce((acc, u, i) => fSub(acc, fMul(R[r][u], makeFrac(t[i]))), R[r][k]);
+    });
+    return x;
+  };
+
+  let best: bigint[] | null = null;
+  const t = Array(freeU.length).fill(1);
+  for (;;) {
+    const x = valuesFor(t);
+    if (x.every((f) => f.den === ONE && f.num > ZERO)) {
+      const ints = x.map((f) => f.num);
+      if (!best || sumAbs(ints) < sumAbs(best)) best = ints;
+    }
+    let i = 0;
+    while (i < t.length && t[i] === B) t[i++] = 1;
+    if (i === t.length) break;
+    t[i]++;
+  }
+  if (best) return withPins(best);
+
+  // Explain using the smallest choice of the free coordinates.
+  const x = valuesFor(Array(freeU.length).fill(1));
+  const bad = x.map((f, u) => (f.num <= ZERO ? refFor(open[u], leftLen) : null)).filter(Boolean);
+  if (bad.length) {
+    const names = bad.map((r) => (r.side === "left" ? leftFormulas : rightFormulas)[r.index]);
+    return {
+      ok: false,
+      reason: "not-positive",
+      species: bad,
+      message: `These pins would need a zero or negative coefficient on ${names.join(", ")}.`,
+    };
+  }
+  const [multiplier] = toSafeNumbers([x.reduce((acc, f) => lcm(acc, f.den), ONE)]) || [];
+  if (multiplier === undefined) return tooLarge;
+  return {
+    ok: false,
+    reason: "fractional",
+    multiplier,
+    message: `These pins force fractional coefficients; multiply the pinned values by ${multiplier}.`,
+  };
+}
+
+export type SolverTrace = {
+  rowLabels: string[]; // elements, plus CHARGE_ROW when charged
+  colLabels: string[]; // species formulas, left then right
+  matrix: number[][]; // from buildElementMatrix (right columns negated)
+  operations: RowOperation[];
+  reduced: string[][];
+  pivotCols: number[];
+  freeCols: number[];
+  // x_c in terms of the free coefficients, one line per pivot column
+  backSubstitution: Array<{ col: number; terms: Array<{ coeff: string; col: number }> }>;
+  // Values chosen for the free coefficients and the rational solution they give
+  freeValues: number[];
+  rational: string[];
+  lcm: number;
+  solution: { left: number[]; right: number[] } | null;
+};
+
+/**
+ * Same answer as solveEquation, plus the worked elimination behind it: the
+ * labelled element matrix, each row operation, the reduced form, back
+ * substitution, and the scaling to whole numbers. With one free coefficient it
+ * is set to 1; with several, to the values of the smallest positive solution.
+ */
+export function traceSolve(
+  leftFormulas: string[],
+  rightFormulas: string[],
+  countFn: (f: string) => Record<string, number>,
+  chargeFn?: (f: string) => number
+): SolverTrace | null {
+  const { A, rowLabels } = buildElementMatrix(leftFormulas, rightFormulas, countFn, chargeFn);
+  const n = A[0]?.length ?? 0;
+  if (A.length === 0 || n === 0) return null;
+
+  const operations: RowOperation[] = [];
+  const { R, pivotCols } = rref(A, operations);
+  const freeCols = Array.from({ length: n }, (_, c) => c).filter((c) => !pivotCols.includes(c));
+  const backSubstitution = pivotCols.map((c, r) => ({
+    col: c,
+    terms: freeCols
+      .filter((f) => R[r][f].num !== ZERO)
+      .map((f) => ({ coeff: fStr(makeFrac(-R[r][f].num, R[r][f].den)), col: f })),
+  }));
+
+  const solution = solveEquation(leftFormulas, rightFormulas, countFn, chargeFn);
+  const chosen = solution ? [...solution.left, ...solution.right] : null;
+  const freeValues = freeCols.map((f) => (freeCols.length > 1 && chosen ? chosen[f] : 1));
+
+  const x: Frac[] = Array.from({ length: n }, () => makeFrac(0));
+  freeCols.forEach((f, i) => (x[f] = makeFrac(freeValues[i])));
+  pivotCols.forEach((c, r) => {
+    x[c] = freeCols.reduce(
+      (acc, f, i) => fSub(acc, fMul(R[r][f], makeFrac(freeValues[i]))),
+      makeFrac(0)
+    );
+  });
+  const den = x.reduce((acc, f) => lcm(acc, f.den), ONE);
+
+  return {
+    rowLabels,
+    colLabels: [...leftFormulas, ...rightFormulas],
+    matrix: A.map((r) => r.map((v) => v + 0)), // drop -0 from negated right columns
+    operations,
+    reduced: snapshot(R),
+    pivotCols,
+    freeCols,
+    backSubstitution,
+    freeValues,
+    rational: x.map(fStr),
+    lcm: Number(den),
+    solution,
+  };
+}
@@ -0,0 +1,177 @@
+// lib/chem/stoichiometry.ts
+//
+// Amount bookkeeping on top of balanced coefficients: convert the given
+// reactant amounts to moles, find the limiting reagent, then scale every
+// species by the resulting extent of reaction (mol of "reaction events").
+// Gases marked (g) can also be given and reported as volumes under stated
+// conditions, and solutions marked (aq) as molarity × volume.
+
+import { molarMass } from "./mass";
+import {
+  gasMoles,
+  gasVolume,
+  GasError,
+  isVolumeUnit,
+  type GasConditions,
+  type VolumeUnit,
+} from "./gas";
+import { solutionMoles, SolutionError, type Volume } from "./solution";
+import type { PhysicalState } from "./parser";
+
+export const AVOGADRO = 6.02214076e23;
+
+export type AmountUnit = "g" | "mol" | "particles" | "M" | VolumeUnit;
+
+// For unit "M", `value` is the molarity and `volume` the solution volume.
+export type Amount = { value: number; unit: AmountUnit; volume?: Volume };
+
+// `liters` is set for gases when conditions are given.
+export type Quantity = { moles: number; grams: number; particles: number; liters?: number };
+
+export type StoichSpecies = { formula: string; coeff: number; state?: PhysicalState };
+
+export type StoichiometryOptions = { conditions?: GasConditions };
+
+export class StoichiometryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StoichiometryError";
+  }
+}
+
+export function toMoles(amount: Amount, molarMassGPerMol: number, conditions?: GasConditions): number {
+  if (!Number.isFinite(amount.value) || amount.value < 0) {
+    throw new StoichiometryError("Amounts must be non-negative numbers");
+  }
+  if (isVolumeUnit(amount.unit)) {
+    if (!conditions) throw new StoichiometryError("Give a temperature and pressure to use gas volumes");
+    try {
+      return gasMoles({ value: amount.value, unit: amount.unit }, conditions);
+    } catch (e) {
+      if (e instanceof GasError) throw new StoichiometryError(e.message);
+      throw e;
+    }
+  }
+  switch (amount.unit) {
+    case "M":
+      if (!amount.volume) throw new StoichiometryError("Give a volume with the molarity");
+      try {
+        return solutionMoles(amount.value, amount.volume);
+      } catch (e) {
+        if (e instanceof SolutionError) throw new StoichiometryError(e.message);
+        throw e;
+      }
+    case "mol":
+      return amount.value;
+    case "particles":
+      return amount.value / AVOGADRO;
+    case "g":
+      if (!molarMassGPerMol) {
+        throw new StoichiometryError("Cannot convert grams for a species without mass");
+      }
+      return amount.value / molarMassGPerMol;
+  }
+}
+
+export function quantity(moles: number, molarMassGPerMol: number, conditions?: GasConditions): Quantity {
+  const q: Quantity = { moles, grams: moles * molarMassGPerMol, particles: moles * AVOGADRO };
+  if (conditions) q.liters = gasVolume(moles, conditions);
+  return q;
+}
+
+export function percentYield(actualMoles: number, theoreticalMoles: number): number {
+  if (theoreticalMoles <= 0) throw new StoichiometryError("Theoretical yield is zero");
+  return (100 * actualMoles) / theoreticalMoles;
+}
+
+export type StoichiometryResult = {
+  extent: number; // mol of reaction as written
+  limiting: number[]; // reactant indices that run out first (ties included)
+  reactants: Array<{
+    formula: string;
+    coeff: number;
+    molarMass: number;
+    given: Quantity | null; // null = not specified, assumed in excess
+    consumed: Quantity;
+    leftover: Quantity | null;
+  }>;
+  products: Array<{
+    formula: string;
+    coeff: number;
+    molarMass: number;
+    theoretical: Quantity;
+    actual: Quantity | null;
+    percentYield: number | null;
+  }>;
+};
+
+// `amounts[i]` is the amount of reactant i, or null if it is in excess.
+// `actual[j]` optionally gives the measured yield of product j. With
+// `options.conditions`, (g) species accept volumes and report `liters`.
+export function stoichiometry(
+  reactants: StoichSpecies[],
+  products: StoichSpecies[],
+  amounts: Array<Amount | null>,
+  actual: Array<Amount | null> = [],
+  options: StoichiometryOptions = {}
+): StoichiometryResult {
+  if ([...reactants, ...products].some((s) => !(s.coeff > 0))) {
+    throw new StoichiometryError("Balance the equation first: every coefficient must be positive");
+  }
+  const gas = (s: StoichSpecies) => (s.state === "g" ? options.conditions : undefined);
+  const moles = (s: StoichSpecies, amount: Amount, M: number) => {
+    if (isVolumeUnit(amount.unit) && s.state !== "g") {
+      throw new StoichiometryError(`Volumes apply only to gases; mark ${s.formula} as (g)`);
+    }
+    if (amount.unit === "M" && s.state !== "aq") {
+      throw new StoichiometryError(`Molarity applies only to solutions; mark ${s.formula} as (aq)`);
+    }
+    return toMoles(amount, M, gas(s));
+  };
+
+  const reactantMasses = reactants.map((r) => molarMass(r.formula));
+  const givenMoles = reactants.map((r, i) =>
+    amounts[i] ? moles(r, amounts[i], reactantMasses[i]) : null
+  );
+  const ratios = givenMoles.map((n, i) => (n === null ? Infinity : n / reactants[i].coeff));
+  const extent = Math.min(...ratios);
+  if (extent === Infinity) {
+    throw new StoichiometryError("Give an amount for at least one reactant");
+  }
+
+  // Relative tolerance so that exactly stoichiometric mixtures tie.
+  const limiting = ratios
+    .map((r, i) => (Math.abs(r - extent) <= 1e-12 * Math.max(1, extent) ? i : -1))
+    .filter((i) => i >= 0);
+
+  return {
+    extent,
+    limiting,
+    reactants: reactants.map((r, i) => {
+      const M = reactantMasses[i];
+      const used = extent * r.coeff;
+      const n = givenMoles[i];
+      return {
+        formula: r.formula,
+        coeff: r.coeff,
+        molarMass: M,
+        given: n === null ? null : quantity(n, M, gas(r)),
+        consumed: quantity(used, M, gas(r)),
+        leftover: n === null ? null : quantity(limiting.includes(i) ? 0 : n - used, M, gas(r)),
+      };
+    }),
+    products: products.map((p, j) => {
+      const M = molarMass(p.formula);
+      const theoretical = quantity(extent * p.coeff, M, gas(p));
+      const got = actual[j] ? quantity(moles(p, actual[j], M), M, gas(p)) : null;
+      return {
+        formula: p.formula,
+        coeff: p.coeff,
+        molarMass: M,
+        theoretical,
+        actual: got,
+        percentYield: got && theoretical.moles > 0 ? percentYield(got.moles, theoretical.moles) : null,
+      };
+    }),
+  };
+}
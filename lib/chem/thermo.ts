@@ -0,0 +1,213 @@
+// lib/chem/thermo.ts
+//
+// Standard thermochemical data at 298.15 K and 1 bar, and reaction ΔH°, ΔS°
+// and ΔG° from balanced coefficients. Values are the usual textbook
+// (NIST/CRC) figures. ΔG at other temperatures uses ΔG = ΔH − TΔS, treating
+// ΔH° and ΔS° as constant.
+
+import { countElementsInFormula, formulaCharge, type PhysicalState } from "./parser";
+
+export type ThermoEntry = {
+  formula: string;
+  state: PhysicalState;
+  dHf: number; // kJ/mol
+  S: number; // J/(mol·K)
+  dGf: number; // kJ/mol
+};
+
+export type ThermoSpecies = { formula: string; coeff: number; state?: PhysicalState };
+
+export type ThermoTerm = {
+  formula: string;
+  coeff: number;
+  side: "left" | "right";
+  state?: PhysicalState; // as written
+  entry: ThermoEntry | null;
+  assumedState: boolean; // no state was written; the entry's state was used
+};
+
+export type ThermoResult = {
+  terms: ThermoTerm[];
+  dH: number | null; // kJ
+  dS: number | null; // J/K
+  dG: number | null; // kJ at 298.15 K, from ΔGf° values
+  missing: ThermoTerm[];
+  // Temperature (K) at which ΔG changes sign, when ΔH and ΔS share a sign.
+  crossover: number | null;
+};
+
+export const STANDARD_TEMPERATURE = 298.15;
+
+// [formula, state, ΔHf°, S°, ΔGf°]. When a formula has several states the
+// one at 25 °C comes first and is used for species written without a state.
+type Row = [string, PhysicalState, number, number, number];
+
+const ROWS: Row[] = [
+  // Elements in their standard states
+  ["H2", "g", 0, 130.7, 0],
+  ["O2", "g", 0, 205.2, 0],
+  ["N2", "g", 0, 191.6, 0],
+  ["F2", "g", 0, 202.8, 0],
+  ["Cl2", "g", 0, 223.1, 0],
+  ["Br2", "l", 0, 152.2, 0],
+  ["I2", "s", 0, 116.1, 0],
+  ["C", "s", 0, 5.7, 0],
+  ["S", "s", 0, 32.1, 0],
+  ["Na", "s", 0, 51.3, 0],
+  ["K", "s", 0, 64.7, 0],
+  ["Mg", "s", 0, 32.7, 0],
+  ["Ca", "s", 0, 41.6, 0],
+  ["Al", "s", 0, 28.3, 0],
+  ["Fe", "s", 0, 27.3, 0],
+  ["Cu", "s", 0, 33.2, 0],
+  ["Zn", "s", 0, 41.6, 0],
+  ["Ag", "s", 0, 42.6, 0],
+  ["O3", "g", 142.7, 238.9, 163.2],
+  // Hydrogen, oxygen, carbon compounds
+  ["H2O", "l", -285.8, 70.0, -237.1],
+  ["H2O", "g", -241.8, 188.8, -228.6],
+  ["H2O2", "l", -187.8, 109.6, -120.4],
+  ["CO", "g", -110.5, 197.7, -137.2],
+  ["CO2", "g", -393.5, 213.8, -394.4],
+  ["CH4", "g", -74.6, 186.3, -50.5],
+  ["C2H6", "g", -84.0, 229.2, -32.0],
+  ["C2H4", "g", 52.4, 219.3, 68.4],
+  ["C2H2", "g", 227.4, 200.9, 209.9],
+  ["C3H8", "g", -103.8, 270.3, -23.4],
+  ["C4H10", "g", -125.6, 310.0, -17.2],
+  ["C8H18", "l", -250.1, 361.1, 6.4],
+  ["C6H6", "l", 49.1, 173.4, 124.5],
+  ["CH3OH", "l", -239.2, 126.8, -166.6],
+  ["C2H5OH", "l", -277.6, 160.7, -174.8],
+  ["C6H12O6", "s", -1273.3, 212.1, -910.4],
+  // Nitrogen, sulfur, halogen compounds
+  ["NH3", "g", -45.9, 192.8, -16.4],
+  ["NH3", "aq", -80.3, 111.3, -26.5],
+  ["NO", "g", 91.3, 210.8, 87.6],
+  ["NO2", "g", 33.2, 240.1, 51.3],
+  ["N2O", "g", 81.6, 220.0, 103.7],
+  ["N2O4", "g", 11.1, 304.4, 99.8],
+  ["HNO3", "l", -174.1, 155.6, -80.7],
+  ["SO2", "g", -296.8, 248.2, -300.1],
+  ["SO3", "g", -395.7, 256.8, -371.1],
+  ["H2S", "g", -20.6, 205.8, -33.4],
+  ["H2SO4", "l", -814.0, 156.9, -690.0],
+  ["HF", "g", -273.3, 173.8, -275.4],
+  ["HCl", "g", -92.3, 186.9, -95.3],
+  ["HCl", "aq", -167.2, 56.5, -131.2],
+  ["HBr", "g", -36.3, 198.7, -53.4],
+  ["HI", "g", 26.5, 206.6, 1.7],
+  // Salts and oxides
+  ["NaCl", "s", -411.2, 72.1, -384.1],
+  ["NaCl", "aq", -407.3, 115.5, -393.1],
+  ["NaOH", "s", -425.8, 64.4, -379.7],
+  ["KCl", "s", -436.5, 82.6, -408.5],
+  ["KClO3", "s", -397.7, 143.1, -296.3],
+  ["NH4Cl", "s", -314.4, 94.6, -202.9],
+  ["NH4NO3", "s", -365.6, 151.1, -183.9],
+  ["AgCl", "s", -127.0, 96.3, -109.8],
+  ["CaCO3", "s", -1207.6, 91.7, -1129.1],
+  ["CaO", "s", -634.9, 38.1, -603.3],
+  ["Ca(OH)2", "s", -985.2, 83.4, -897.5],
+  ["MgO", "s", -601.6, 27.0, -569.3],
+  ["Al2O3", "s", -1675.7, 50.9, -1582.3],
+  ["Fe2O3", "s", -824.2, 87.4, -742.2],
+  ["Fe3O4", "s", -1118.4, 146.4, -1015.4],
+  ["CuO", "s", -157.3, 42.6, -129.7],
+  ["ZnO", "s", -350.5, 43.7, -320.5],
+  // Aqueous ions (H+ is the zero of the ion scale)
+  ["H+", "aq", 0, 0, 0],
+  ["OH-", "aq", -230.0, -10.9, -157.2],
+  ["Na+", "aq", -240.1, 59.0, -261.9],
+  ["K+", "aq", -252.4, 102.5, -283.3],
+  ["Ag+", "aq", 105.6, 72.7, 77.1],
+  ["NH4+", "aq", -132.5, 113.4, -79.3],
+  ["Ca^2+", "aq", -542.8, -53.1, -553.6],
+  ["Mg^2+", "aq", -466.9, -138.1, -454.8],
+  ["Cu^2+", "aq", 64.8, -99.6, 65.5],
+  ["Zn^2+", "aq", -153.9, -112.1, -147.1],
+  ["Fe^2+", "aq", -89.1, -137.7, -78.9],
+  ["Fe^3+", "aq", -48.5, -315.9, -4.7],
+  ["Cl-", "aq", -167.2, 56.5, -131.2],
+  ["NO3-", "aq", -207.4, 146.4, -111.3],
+  ["SO4^2-", "aq", -909.3, 20.1, -744.5],
+  ["CO3^2-", "aq", -677.1, -56.9, -527.8],
+  ["HCO3-", "aq", -692.0, 91.2, -586.8],
+];
+
+// Formulas are matched by composition and charge, so "CH3OH" and "CH4O",
+// or "Fe^3+" and "Fe+3", find the same entry.
+function compositionKey(formula: string) {
+  const counts = countElementsInFormula(formula);
+  const atoms = Object.keys(counts)
+    .sort()
+    .map((el) => `${el}${counts[el]}`)
+    .join("");
+  return `${atoms}${formulaCharge(formula) || ""}`;
+}
+
+export const THERMO_TABLE: ThermoEntry[] = ROWS.map(([formula, state, dHf, S, dGf]) => ({
+  formula,
+  state,
+  dHf,
+  S,
+  dGf,
+}));
+
+const BY_KEY = new Map<string, ThermoEntry[]>();
+for (const entry of THERMO_TABLE) {
+  const key = compositionKey(entry.formula);
+  BY_KEY.set(key, [...(BY_KEY.get(key) ?? []), entry]);
+}
+
+/**
+ * Table entry for a formula in the given state. Without a state, the entry
+ * for the state the substance has at 25 °C is returned.
+ */
+export function lookupThermo(formula: string, state?: PhysicalState): ThermoEntry | undefined {
+  let key: string;
+  try {
+    key = compositionKey(formula);
+  } catch {
+    return undefined;
+  }
+  const entries = BY_KEY.get(key);
+  if (!entries) return undefined;
+  return state ? entries.find((e) => e.state === state) : entries[0];
+}
+
+const round = (x: number) => Math.round(x * 1000) / 1000;
+
+/**
+ * ΔH°, ΔS° and ΔG° (298.15 K) for a balanced reaction. Any quantity that
+ * needs a species missing from the table is null; the species are listed in
+ * `missing`.
+ */
+export function reactionThermo(reactants: ThermoSpecies[], products: ThermoSpecies[]): ThermoResult {
+  const terms: ThermoTerm[] = [
+    ...reactants.map((sp) => ({ ...sp, side: "left" as const })),
+    ...products.map((sp) => ({ ...sp, side: "right" as const })),
+  ].map(({ formula, coeff, state, side }) => {
+    const entry = lookupThermo(formula, state) ?? null;
+    return { formula, coeff, side, state, entry, assumedState: !!entry && !state };
+  });
+
+  const missing = terms.filter((t) => !t.entry);
+  const sum = (pick: (e: ThermoEntry) => number) =>
+    missing.length
+      ? null
+      : round(terms.reduce((s, t) => s + (t.side === "right" ? 1 : -1) * t.coeff * pick(t.entry!), 0));
+
+  const dH = sum((e) => e.dHf);
+  const dS = sum((e) => e.S);
+  const dG = sum((e) => e.dGf);
+  const crossover =
+    dH !== null && dS !== null && dS !== 0 && dH * dS > 0 ? (dH * 1000) / dS : null;
+  return { terms, dH, dS, dG, missing, crossover };
+}
+
+// ΔG = ΔH − TΔS in kJ, with ΔS in J/K.
+export function gibbsAt(result: Pick<ThermoResult, "dH" | "dS">, T: number): number | null {
+  if (result.dH === null || result.dS === null) return null;
+  return result.dH - (T * result.dS) / 1000;
+}
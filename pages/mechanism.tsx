@@ -0,0 +1,37 @@
+import dynamic from "next/dynamic";
+import AppLayout from "../components/AppLayout";
+import Head from "next/head";
+
+const MechanismBuilder = dynamic(
+  () => import("../components/MechanismBuilder"),
+  { ssr: false }
+);
+
+export default function MechanismPage() {
+  return (
+    <AppLayout>
+      <Head>
+        <title>Chemometry Mechanisms — Net Reaction, Intermediates and Catalysts</title>
+        <meta
+          name="description"
+          content="Enter elementary steps or a reaction sequence: each step is balanced, multiplied so intermediates cancel, and summed into the net reaction."
+        />
+        <meta name="robots" content="index, follow" />
+        <link rel="canonical" href="https://chemometry.io/mechanism" />
+      </Head>
+
+      <section className="mx-auto max-w-6xl px-4 sm:px-6 py-8">
+        <header className="mb-4">
+          <h1 className="text-2xl font-semibold tracking-tight">Mechanisms</h1>
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">
+            List the steps of a mechanism or a sequence of reactions to get the net reaction,
+            its intermediates and its catalysts.
+          </p>
+        </header>
+        <div className="rounded-3xl border p-4 sm:p-6">
+          <MechanismBuilder />
+        </div>
+      </section>
+    </AppLayout>
+  );
+}
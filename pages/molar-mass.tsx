@@ -0,0 +1,36 @@
+import dynamic from "next/dynamic";
+import AppLayout from "../components/AppLayout";
+import Head from "next/head";
+
+const MolarMassCalculator = dynamic(
+  () => import("../components/MolarMassCalculator"),
+  { ssr: false }
+);
+
+export default function MolarMassPage() {
+  return (
+    <AppLayout>
+      <Head>
+        <title>Chemometry Molar Mass Calculator — Percent Composition</title>
+        <meta
+          name="description"
+          content="Compute the molar mass of any chemical formula and its mass-percent composition per element, using standard atomic weights."
+        />
+        <meta name="robots" content="index, follow" />
+        <link rel="canonical" href="https://chemometry.io/molar-mass" />
+      </Head>
+
+      <section className="mx-auto max-w-6xl px-4 sm:px-6 py-8">
+        <header className="mb-4">
+          <h1 className="text-2xl font-semibold tracking-tight">Molar mass</h1>
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">
+            Type a formula to see its molar mass and how much of it each element makes up.
+          </p>
+        </header>
+        <div className="rounded-3xl border p-4 sm:p-6">
+          <MolarMassCalculator />
+        </div>
+      </section>
+    </AppLayout>
+  );
+}